@@ -1,16 +1,44 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { generateSpeech, extractTextFromDocument, generateVideo, transcribeAudio, explainPresentation, generateScript, translateText } from './services/gemini';
-import { VoiceName, AudioResult, VideoResult, VoicePreset, Language } from './types';
-import { MAX_CHAR_COUNT } from './constants';
-import { mixAudio, generateSynthesizedTrack } from './utils/audio';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { generateSpeech, generateDialogue, generateMarkedUpSpeech, isLiveOnlySpeechProvider, speakText, extractTextFromDocument, generateVideo, transcribeAudio, transcribePcm, TranscriptionPart, explainPresentation, generateScript, translateText } from './services/gemini';
+import { VoiceName, AudioResult, VideoResult, VoicePreset, Language, DeliveryStyle, ProviderSettings, CaptionSettings, TagSettings, Mp3Settings, BookChapter, MusicMixSettings, SilenceSettings, TeleprompterSettings } from './types';
+import { MAX_CHAR_COUNT, VOICES, LANGUAGES, DEFAULT_DELIVERY_STYLE, DEFAULT_CAPTION_SETTINGS, DEFAULT_TAG_SETTINGS, DEFAULT_MP3_SETTINGS, DEFAULT_MUSIC_MIX_SETTINGS, LOUDNESS_TARGETS, DEFAULT_SILENCE_SETTINGS, DEFAULT_TELEPROMPTER_SETTINGS, LARGE_UPLOAD_SECONDS, LARGE_UPLOAD_BYTES } from './constants';
+import { mixAudio, generateSynthesizedTrack, getPcmDuration, addWavHeader, decodeToPcm, convertPcmChannels, getMediaDuration, measurePcmLoudness } from './utils/audio';
+import { planSilenceEdits, applyEdits, remapTimings } from './utils/edit';
+import { transcriptText } from './utils/transcript';
+import { formatBytes } from './utils/text';
+import { parseDialogueScript } from './utils/dialogue';
+import { hasMarkup } from './utils/markup';
+import { parseBatchImport, BatchImportResult, BatchImportRow } from './utils/batchImport';
+import { exportResultsAsZip, downloadBlob, buildExportNames, slugify, ZipAudioFormat } from './utils/export';
+import { detectChapters, buildBookToc } from './utils/chapters';
+import { mergeResults, MergeOptions, MergeSource } from './utils/merge';
+import { onRequestStatus, formatRequestStatus, isAbortError } from './services/scheduler';
+import { configureProviders, parseProviderSettings, DEFAULT_PROVIDER_SETTINGS, SPEECH_PROVIDERS } from './services/providers';
+import { saveAudioResult, saveVideoResult, loadAudioResults, loadVideoResults, deleteAudioResult, deleteVideoResult, clearAllResults, getStorageUsage, StorageUsage } from './services/storage';
 import VoiceSelector from './components/VoiceSelector';
 import AudioCard from './components/AudioCard';
 import VideoCard from './components/VideoCard';
-import AudioRecorder from './components/AudioRecorder';
-
-type Tab = 'tts' | 'batch' | 'record' | 'video_results';
-
-const LANGUAGES: Language[] = ['English', 'Hindi', 'Kannada', 'Telugu', 'Tamil', 'Malayalam'];
+import AudioRecorder, { RecorderState } from './components/AudioRecorder';
+import Teleprompter from './components/Teleprompter';
+import DialogueEditor from './components/DialogueEditor';
+import StyleControls from './components/StyleControls';
+import SettingsPanel from './components/SettingsPanel';
+import ProgressBar from './components/ProgressBar';
+import Mp3SettingsControls from './components/Mp3SettingsControls';
+import MusicMixControls from './components/MusicMixControls';
+import BatchJobView from './components/BatchJobView';
+import BatchImportPreview from './components/BatchImportPreview';
+import MergePanel from './components/MergePanel';
+import AudiobookEditor, { createChapter } from './components/AudiobookEditor';
+import { useBatchJob } from './hooks/useBatchJob';
+
+type Tab = 'tts' | 'batch' | 'dialogue' | 'audiobook' | 'record' | 'video_results';
+
+// Long-running actions that can be cancelled independently of each other
+type Operation = 'speech' | 'translate' | 'script' | 'extract' | 'dialogue' | 'bookImport' | 'bookNarration' | 'bookExport' | 'video' | 'upload';
+
+// Silence between chapters when an audiobook is exported as one file
+const BOOK_CHAPTER_GAP_SECONDS = 1.5;
 
 const LANGUAGE_CODES: Record<Language, string> = {
   'English': 'en-US',
@@ -25,7 +53,18 @@ const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('tts');
   const [text, setText] = useState('');
   const [batchText, setBatchText] = useState('');
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  const [batchImport, setBatchImport] = useState<{ fileName: string, result: BatchImportResult } | null>(null);
   const [selectedVoice, setSelectedVoice] = useState<VoiceName>(VoiceName.Kore);
+  const [deliveryStyle, setDeliveryStyle] = useState<DeliveryStyle>(DEFAULT_DELIVERY_STYLE);
+  
+  // Audiobook State
+  const [bookTitle, setBookTitle] = useState('');
+  const [bookChapters, setBookChapters] = useState<BookChapter[]>([]);
+
+  // Dialogue State
+  const [dialogueText, setDialogueText] = useState('');
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, VoiceName>>({});
   
   // Translation State
   const [targetLanguage, setTargetLanguage] = useState<Language>('English');
@@ -35,6 +74,11 @@ const App: React.FC = () => {
   const [isExtracting, setIsExtracting] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
   const [progress, setProgress] = useState(0); // 0-100
+  // Controllers for running operations, so each can be cancelled on its own
+  const operationsRef = useRef(new Map<Operation, AbortController>());
+  const statusMessageRef = useRef('');
+  const statusBeforeRetryRef = useRef<string | null>(null);
+  statusMessageRef.current = statusMessage;
 
   // Writer State
   const [showWriter, setShowWriter] = useState(false);
@@ -48,6 +92,9 @@ const App: React.FC = () => {
   // Music State
   const [musicFile, setMusicFile] = useState<File | null>(null);
   const [musicVolume, setMusicVolume] = useState<number>(0.2);
+  // -1 (left) to 1 (right); anything but centre renders the result in stereo
+  const [speechPan, setSpeechPan] = useState<number>(0);
+  const [mixSettings, setMixSettings] = useState<MusicMixSettings>(DEFAULT_MUSIC_MIX_SETTINGS);
   const [libraryLoading, setLibraryLoading] = useState(false);
 
   // Preset State
@@ -57,10 +104,69 @@ const App: React.FC = () => {
   const [audioResults, setAudioResults] = useState<AudioResult[]>([]);
   const [videoResults, setVideoResults] = useState<VideoResult[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  // Bulk export
+  const [selectedResultIds, setSelectedResultIds] = useState<string[]>([]);
+  const [zipFormat, setZipFormat] = useState<ZipAudioFormat>('both');
+  // Also applied to audiobook exports
+  const [loudnessTarget, setLoudnessTarget] = useState<number | null>(null);
+  const [exportProgress, setExportProgress] = useState<{ completed: number, total: number } | null>(null);
+  const zipAbortRef = useRef<AbortController | null>(null);
+  // Card transcriptions run alongside generation, so they have their own controller
+  const transcribeAbortRef = useRef<AbortController | null>(null);
+  const [showMerge, setShowMerge] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+
+  // Provider Settings
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(DEFAULT_CAPTION_SETTINGS);
+  const [tagSettings, setTagSettings] = useState<TagSettings>(DEFAULT_TAG_SETTINGS);
+  const [mp3Settings, setMp3Settings] = useState<Mp3Settings>(DEFAULT_MP3_SETTINGS);
+  const [silenceSettings, setSilenceSettings] = useState<SilenceSettings>(DEFAULT_SILENCE_SETTINGS);
+  const [teleprompter, setTeleprompter] = useState<TeleprompterSettings>(DEFAULT_TELEPROMPTER_SETTINGS);
+  const [recorderState, setRecorderState] = useState<RecorderState>('idle');
+  // Result currently being transcribed, if any
+  const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  // Progress through the selected clips being transcribed together
+  const [transcribeProgress, setTranscribeProgress] = useState<{ completed: number, total: number } | null>(null);
+  // An upload whose transcription stopped partway, with the parts already done
+  const [uploadResume, setUploadResume] = useState<{ file: File, parts: TranscriptionPart[], total: number } | null>(null);
+
+  const batch = useBatchJob(
+    async (item, job, signal) => {
+      let prompt = item.text;
+      if (item.translate && item.language) {
+        prompt = (await translateText(item.text, item.language, signal)).trim();
+        if (!prompt) throw new Error(`Translation to ${item.language} returned no text.`);
+      }
+      const result = await processTTS(prompt, 'batch', {
+        signal,
+        voice: item.voice ?? job.voice,
+        style: item.style ?? job.style
+      });
+      return { ...result, language: item.language, filename: item.filename };
+    },
+    (result) => addAudioResult(result)
+  );
+
+  const parsedDialogue = useMemo(() => parseDialogueScript(dialogueText), [dialogueText]);
+
+  // Speakers without an explicit choice get voices assigned round-robin
+  const resolvedSpeakerVoices = useMemo(() => {
+    const voices: Record<string, VoiceName> = {};
+    parsedDialogue.speakers.forEach((speaker, i) => {
+      voices[speaker] = speakerVoices[speaker] ?? VOICES[i % VOICES.length].id;
+    });
+    return voices;
+  }, [parsedDialogue.speakers, speakerVoices]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const pptxInputRef = useRef<HTMLInputElement>(null);
+  const transcriptionInputRef = useRef<HTMLInputElement>(null);
   const musicInputRef = useRef<HTMLInputElement>(null);
+  const batchImportInputRef = useRef<HTMLInputElement>(null);
 
   // Load Presets on Mount
   useEffect(() => {
@@ -74,6 +180,155 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Load Provider Settings on Mount
+  useEffect(() => {
+    const saved = localStorage.getItem('gemini-vox-settings');
+    if (saved) {
+      try {
+        setProviderSettings(parseProviderSettings(JSON.parse(saved)));
+      } catch (e) {
+        console.error("Failed to load settings", e);
+      }
+    }
+  }, []);
+
+  // Route service calls through the selected providers
+  useEffect(() => {
+    configureProviders(providerSettings);
+  }, [providerSettings]);
+
+  const updateProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    localStorage.setItem('gemini-vox-settings', JSON.stringify(settings));
+  };
+
+  // Load Caption Settings on Mount
+  useEffect(() => {
+    const saved = localStorage.getItem('gemini-vox-captions');
+    if (saved) {
+      try {
+        setCaptionSettings({ ...DEFAULT_CAPTION_SETTINGS, ...JSON.parse(saved) });
+      } catch (e) {
+        console.error("Failed to load caption settings", e);
+      }
+    }
+  }, []);
+
+  const updateCaptionSettings = (settings: CaptionSettings) => {
+    setCaptionSettings(settings);
+    localStorage.setItem('gemini-vox-captions', JSON.stringify(settings));
+  };
+
+  // Load MP3 Tag Settings on Mount
+  useEffect(() => {
+    const saved = localStorage.getItem('gemini-vox-tags');
+    if (saved) {
+      try {
+        setTagSettings({ ...DEFAULT_TAG_SETTINGS, ...JSON.parse(saved) });
+      } catch (e) {
+        console.error("Failed to load tag settings", e);
+      }
+    }
+  }, []);
+
+  const updateTagSettings = (settings: TagSettings) => {
+    setTagSettings(settings);
+    try {
+      localStorage.setItem('gemini-vox-tags', JSON.stringify(settings));
+    } catch (e) {
+      // Cover art can exceed the storage quota; keep it for this session only
+      console.error("Failed to save tag settings", e);
+    }
+  };
+
+  // Load MP3 Encoder Settings on Mount
+  useEffect(() => {
+    const saved = localStorage.getItem('gemini-vox-mp3');
+    if (saved) {
+      try {
+        setMp3Settings({ ...DEFAULT_MP3_SETTINGS, ...JSON.parse(saved) });
+      } catch (e) {
+        console.error("Failed to load MP3 settings", e);
+      }
+    }
+  }, []);
+
+  const updateMp3Settings = (settings: Mp3Settings) => {
+    setMp3Settings(settings);
+    localStorage.setItem('gemini-vox-mp3', JSON.stringify(settings));
+  };
+
+  // Load Silence Trimming Settings on Mount
+  useEffect(() => {
+    const saved = localStorage.getItem('gemini-vox-silence');
+    if (saved) {
+      try {
+        setSilenceSettings({ ...DEFAULT_SILENCE_SETTINGS, ...JSON.parse(saved) });
+      } catch (e) {
+        console.error("Failed to load silence settings", e);
+      }
+    }
+  }, []);
+
+  const updateSilenceSettings = (settings: SilenceSettings) => {
+    setSilenceSettings(settings);
+    localStorage.setItem('gemini-vox-silence', JSON.stringify(settings));
+  };
+
+  // Load Teleprompter Settings on Mount
+  useEffect(() => {
+    const saved = localStorage.getItem('gemini-vox-teleprompter');
+    if (saved) {
+      try {
+        setTeleprompter({ ...DEFAULT_TELEPROMPTER_SETTINGS, ...JSON.parse(saved) });
+      } catch (e) {
+        console.error("Failed to load teleprompter settings", e);
+      }
+    }
+  }, []);
+
+  const updateTeleprompter = (settings: TeleprompterSettings) => {
+    setTeleprompter(settings);
+    localStorage.setItem('gemini-vox-teleprompter', JSON.stringify(settings));
+  };
+
+  // Rehydrate persisted history on mount
+  useEffect(() => {
+    let cancelled = false;
+    const loadHistory = async () => {
+      try {
+        const [audio, video] = await Promise.all([loadAudioResults(), loadVideoResults()]);
+        if (cancelled) {
+          audio.forEach(r => URL.revokeObjectURL(r.blobUrl));
+          video.forEach(r => URL.revokeObjectURL(r.videoUrl));
+          return;
+        }
+        setAudioResults(prev => [...prev, ...audio]);
+        setVideoResults(prev => [...prev, ...video]);
+      } catch (e) {
+        console.error("Failed to load history", e);
+      }
+      refreshStorageUsage();
+    };
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Surface scheduler retries (rate limits, overload) in the status line
+  useEffect(() => {
+    return onRequestStatus(status => {
+      if (status) {
+        if (statusBeforeRetryRef.current === null) statusBeforeRetryRef.current = statusMessageRef.current;
+        setStatusMessage(formatRequestStatus(status));
+      } else if (statusBeforeRetryRef.current !== null) {
+        setStatusMessage(statusBeforeRetryRef.current);
+        statusBeforeRetryRef.current = null;
+      }
+    });
+  }, []);
+
   // Clean up speech recognition on unmount
   useEffect(() => {
     return () => {
@@ -83,6 +338,145 @@ const App: React.FC = () => {
     };
   }, []);
 
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.error("Failed to read storage usage", e));
+  };
+
+  const addAudioResult = (added: AudioResult) => {
+    // Measured here once and stored, so cards don't re-measure on every load
+    const result = added.pcmData && !added.loudness
+      ? { ...added, loudness: measurePcmLoudness(added.pcmData, 24000, added.channels) }
+      : added;
+    setAudioResults(prev => [result, ...prev]);
+    saveAudioResult(result)
+      .then(refreshStorageUsage)
+      .catch(e => console.error("Failed to persist audio result", e));
+  };
+
+  // Replaces a result in place, e.g. once it has a transcript
+  const updateAudioResult = (result: AudioResult) => {
+    setAudioResults(prev => prev.map(r => r.id === result.id ? result : r));
+    saveAudioResult(result)
+      .then(refreshStorageUsage)
+      .catch(e => console.error("Failed to persist audio result", e));
+  };
+
+  const addVideoResult = (result: VideoResult) => {
+    setVideoResults(prev => [result, ...prev]);
+    saveVideoResult(result)
+      .then(refreshStorageUsage)
+      .catch(e => console.error("Failed to persist video result", e));
+  };
+
+  const handleDeleteAudio = async (id: string) => {
+    const target = audioResults.find(r => r.id === id);
+    setAudioResults(prev => prev.filter(r => r.id !== id));
+    setSelectedResultIds(prev => prev.filter(selectedId => selectedId !== id));
+    if (target) URL.revokeObjectURL(target.blobUrl);
+    try {
+      await deleteAudioResult(id);
+    } catch (e) {
+      console.error("Failed to delete audio result", e);
+    }
+    refreshStorageUsage();
+  };
+
+  const handleDeleteVideo = async (id: string) => {
+    const target = videoResults.find(r => r.id === id);
+    setVideoResults(prev => prev.filter(r => r.id !== id));
+    if (target) URL.revokeObjectURL(target.videoUrl);
+    try {
+      await deleteVideoResult(id);
+    } catch (e) {
+      console.error("Failed to delete video result", e);
+    }
+    refreshStorageUsage();
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm("Delete all saved audio and video results? This cannot be undone.")) return;
+    audioResults.forEach(r => URL.revokeObjectURL(r.blobUrl));
+    videoResults.forEach(r => URL.revokeObjectURL(r.videoUrl));
+    setAudioResults([]);
+    setVideoResults([]);
+    setSelectedResultIds([]);
+    try {
+      await clearAllResults();
+    } catch (e) {
+      console.error("Failed to clear history", e);
+      setError("Could not clear saved history.");
+    }
+    refreshStorageUsage();
+  };
+
+  const handleSelectResult = (id: string, selected: boolean) => {
+    setSelectedResultIds(prev => selected ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  // Exports the selection (or everything when nothing is selected) oldest first, i.e. in generation order
+  const handleDownloadZip = async () => {
+    const targets = (selectedResultIds.length > 0
+      ? audioResults.filter(r => selectedResultIds.includes(r.id))
+      : audioResults
+    ).slice().sort((a, b) => a.timestamp - b.timestamp);
+    if (targets.length === 0) return;
+
+    setError(null);
+    setExportProgress({ completed: 0, total: targets.length });
+    const controller = new AbortController();
+    zipAbortRef.current = controller;
+    try {
+      const zipBlob = await exportResultsAsZip(targets, zipFormat, {
+        onProgress: (completed, total) => setExportProgress({ completed, total }),
+        tagSettings,
+        mp3Settings,
+        loudnessTarget,
+        signal: controller.signal
+      });
+      downloadBlob(zipBlob, `gemini-vox-export-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.zip`);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error(err);
+        setError(err.message || "Failed to create ZIP.");
+      }
+    } finally {
+      zipAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handleMerge = async (sources: MergeSource[], options: MergeOptions) => {
+    setIsMerging(true);
+    setError(null);
+    try {
+      addAudioResult(await mergeResults(sources, options));
+      setShowMerge(false);
+      setSelectedResultIds([]);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to merge clips.");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  // Starts a cancellable operation. Only an earlier run of the same operation
+  // is aborted; others (e.g. a translation during a book export) carry on.
+  const beginOperation = (operation: Operation): AbortSignal => {
+    operationsRef.current.get(operation)?.abort();
+    const controller = new AbortController();
+    operationsRef.current.set(operation, controller);
+    return controller.signal;
+  };
+
+  // Cancels the operations a progress bar or button stands for
+  const handleCancel = (...operations: Operation[]) => {
+    operations.forEach(operation => {
+      operationsRef.current.get(operation)?.abort();
+      operationsRef.current.delete(operation);
+    });
+  };
+
   const savePreset = () => {
     if (!newPresetName.trim()) return;
     const newPreset: VoicePreset = {
@@ -90,6 +484,10 @@ const App: React.FC = () => {
       name: newPresetName.trim(),
       voice: selectedVoice,
       musicVolume,
+      speechPan,
+      mix: mixSettings,
+      style: deliveryStyle,
+      mp3: mp3Settings,
     };
     const updated = [...presets, newPreset];
     setPresets(updated);
@@ -102,6 +500,10 @@ const App: React.FC = () => {
     if (preset) {
       setSelectedVoice(preset.voice);
       setMusicVolume(preset.musicVolume);
+      setSpeechPan(preset.speechPan ?? 0);
+      setMixSettings({ ...DEFAULT_MUSIC_MIX_SETTINGS, ...preset.mix });
+      setDeliveryStyle(preset.style ?? DEFAULT_DELIVERY_STYLE);
+      if (preset.mp3) updateMp3Settings({ ...DEFAULT_MP3_SETTINGS, ...preset.mp3 });
     }
   };
 
@@ -167,38 +569,67 @@ const App: React.FC = () => {
     const currentText = activeTab === 'batch' ? batchText : text;
     if (!currentText.trim()) return;
     
+    const signal = beginOperation('translate');
     setIsGenerating(true);
     setStatusMessage(`Translating to ${targetLanguage}...`);
     setError(null);
 
     try {
-      const translated = await translateText(currentText, targetLanguage);
+      const translated = await translateText(currentText, targetLanguage, signal);
       if (activeTab === 'batch') {
         setBatchText(translated);
       } else {
         setText(translated);
       }
     } catch (err: any) {
-      setError(err.message || "Translation failed.");
+      if (!isAbortError(err)) setError(err.message || "Translation failed.");
     } finally {
       setIsGenerating(false);
       setStatusMessage('');
     }
   };
 
-  const processTTS = async (prompt: string, type: 'tts' | 'batch' = 'tts') => {
-    // 1. Generate Speech
-    const result = await generateSpeech(prompt, selectedVoice);
+  const processTTS = async (
+    prompt: string,
+    type: 'tts' | 'batch' | 'audiobook' = 'tts',
+    options: {
+      onProgress?: (completed: number, total: number) => void,
+      signal?: AbortSignal,
+      // Overrides for resumed batch jobs, which keep the voice/style they started with
+      voice?: VoiceName,
+      style?: DeliveryStyle
+    } = {}
+  ): Promise<AudioResult> => {
+    const { voice = selectedVoice, style = deliveryStyle, onProgress, signal } = options;
+
+    // 1. Generate Speech (long texts are chunked inside generateSpeech; inline markup is split into segments)
+    const synthesize = hasMarkup(prompt) ? generateMarkedUpSpeech : generateSpeech;
+    const result = await synthesize(prompt, voice, { style, onProgress, signal, timing: captionSettings.timing });
     let finalBlobUrl = result.blobUrl;
     let finalPcm = result.pcmData;
+    let channels: number | undefined;
+    let segments = result.segments;
+
+    // 2. Trim dead air at the edges
+    if (silenceSettings.trimSpeech && finalPcm) {
+      const edits = planSilenceEdits(finalPcm, 1, { trimEdges: true, maxPause: null, padding: silenceSettings.padding });
+      if (edits.length > 0) {
+        finalPcm = applyEdits(finalPcm, edits);
+        finalBlobUrl = URL.createObjectURL(new Blob([addWavHeader(finalPcm)], { type: 'audio/wav' }));
+        if (segments) segments = edits.reduce((remapped, edit) => remapTimings(remapped, edit), segments);
+      }
+    }
 
-    // 2. Mix Music if exists
-    if (musicFile) {
+    // 3. Mix Music (and pan the speech) if needed
+    if (musicFile || speechPan !== 0) {
       try {
-        const speechBlob = await fetch(result.blobUrl).then(r => r.blob());
-        const mixedBlob = await mixAudio(speechBlob, musicFile, musicVolume);
-        finalBlobUrl = URL.createObjectURL(mixedBlob);
-        finalPcm = undefined; 
+        const speechBlob = await fetch(finalBlobUrl).then(r => r.blob());
+        const mixed = await mixAudio(speechBlob, musicFile, musicVolume, speechPan, mixSettings);
+        finalBlobUrl = URL.createObjectURL(mixed.blob);
+        finalPcm = mixed.pcmData;
+        channels = mixed.channels;
+        // The music intro pushes the speech back
+        segments = segments?.map(s => ({ ...s, start: s.start + mixed.speechStart, end: s.end + mixed.speechStart }));
       } catch (mixErr) {
         console.error("Mixing failed, falling back to speech only", mixErr);
       }
@@ -207,26 +638,45 @@ const App: React.FC = () => {
     return {
       id: Date.now().toString() + Math.random().toString().slice(2,6),
       text: prompt,
-      voice: selectedVoice,
+      voice,
       blobUrl: finalBlobUrl,
       timestamp: Date.now(),
       type: type,
-      pcmData: finalPcm
+      pcmData: finalPcm,
+      channels,
+      style,
+      segments
     };
   };
 
   const handleGenerateTTS = async () => {
     if (!text.trim()) return;
     
+    const signal = beginOperation('speech');
     setIsGenerating(true);
     setStatusMessage('Generating Speech...');
     setError(null);
     setProgress(0);
 
     try {
-      const newResult = await processTTS(text.trim(), 'tts');
-      setAudioResults((prev) => [newResult, ...prev]);
+      // Live-only engines (browser voices) just play the text; there is no clip to keep
+      if (isLiveOnlySpeechProvider()) {
+        setStatusMessage('Speaking...');
+        await speakText(text.trim(), selectedVoice, deliveryStyle, signal);
+        return;
+      }
+
+      const newResult = await processTTS(text.trim(), 'tts', {
+        signal,
+        onProgress: (completed, total) => {
+          if (total <= 1) return;
+          setStatusMessage(completed < total ? `Generating part ${completed + 1} of ${total}...` : 'Finalizing audio...');
+          setProgress(Math.round((completed / total) * 100));
+        }
+      });
+      addAudioResult(newResult);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       setError(err.message || "Failed to generate speech.");
       console.error(err);
     } finally {
@@ -236,38 +686,244 @@ const App: React.FC = () => {
     }
   };
 
-  const handleBatchGenerate = async () => {
-    if (!batchText.trim()) return;
-    const lines = batchText.split('\n').filter(l => l.trim().length > 0);
-    if (lines.length === 0) return;
+  const handleGenerateDialogue = async () => {
+    const { turns } = parsedDialogue;
+    if (turns.length === 0) return;
 
+    const signal = beginOperation('dialogue');
     setIsGenerating(true);
+    setStatusMessage('Generating Dialogue...');
     setError(null);
     setProgress(0);
 
-    let completed = 0;
-    
-    for (const line of lines) {
-      setStatusMessage(`Processing ${completed + 1} of ${lines.length}`);
-      try {
-        const newResult = await processTTS(line.trim(), 'batch');
-        setAudioResults((prev) => [newResult, ...prev]);
-        completed++;
-      } catch (err) {
-        console.error("Batch line failed", line, err);
+    try {
+      const result = await generateDialogue(turns, resolvedSpeakerVoices, {
+        style: deliveryStyle,
+        signal,
+        onProgress: (completed, total) => {
+          if (total <= 1) return;
+          setStatusMessage(completed < total ? `Generating part ${completed + 1} of ${total}...` : 'Finalizing audio...');
+          setProgress(Math.round((completed / total) * 100));
+        }
+      });
+      const newResult: AudioResult = {
+        id: Date.now().toString() + Math.random().toString().slice(2,6),
+        text: turns.map(t => `${t.speaker}: ${t.text}`).join('\n'),
+        voice: Array.from(new Set(Object.values(resolvedSpeakerVoices))).join(', '),
+        blobUrl: result.blobUrl,
+        timestamp: Date.now(),
+        type: 'dialogue',
+        pcmData: result.pcmData,
+        speakers: { ...resolvedSpeakerVoices },
+        style: deliveryStyle,
+      };
+      addAudioResult(newResult);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      setError(err.message || "Failed to generate dialogue.");
+      console.error(err);
+    } finally {
+      setIsGenerating(false);
+      setStatusMessage('');
+      setProgress(0);
+    }
+  };
+
+  const handleBookImport = async (file: File) => {
+    const signal = beginOperation('bookImport');
+    setIsExtracting(true);
+    setError(null);
+    setStatusMessage('Reading Document...');
+
+    try {
+      const extractedText = await extractTextFromDocument(file, signal);
+      const detected = detectChapters(extractedText);
+      if (detected.length === 0) throw new Error("No readable text found in the document.");
+      setBookTitle(file.name.replace(/\.[^.]+$/, ''));
+      setBookChapters(detected.map(c => createChapter(c.title, c.text)));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || "Failed to read the document.");
+    } finally {
+      setIsExtracting(false);
+      setStatusMessage('');
+    }
+  };
+
+  const patchBookChapter = (id: string, patch: Partial<BookChapter>) => {
+    setBookChapters(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  // Chapters with text whose narration is missing (never made, failed, edited or deleted from history)
+  const unnarratedChapters = useMemo(
+    () => bookChapters.filter(c => c.text.trim() && !(c.status === 'done' && audioResults.some(r => r.id === c.resultId))),
+    [bookChapters, audioResults]
+  );
+
+  // Every narrated chapter with its result, or null while any chapter still needs narrating
+  const bookNarrations = useMemo(() => {
+    const chapters = bookChapters.filter(c => c.text.trim());
+    if (chapters.length === 0 || unnarratedChapters.length > 0) return null;
+    return chapters.map(chapter => ({ chapter, result: audioResults.find(r => r.id === chapter.resultId)! }));
+  }, [bookChapters, audioResults, unnarratedChapters]);
+
+  // Narrates every chapter that has no narration yet, one AudioResult per chapter
+  const handleNarrateBook = async () => {
+    const pending = unnarratedChapters;
+    if (pending.length === 0) return;
+
+    const signal = beginOperation('bookNarration');
+    const title = bookTitle.trim() || 'Untitled Book';
+    setIsGenerating(true);
+    setError(null);
+    setProgress(0);
+
+    try {
+      for (let i = 0; i < pending.length; i++) {
+        const chapter = pending[i];
+        const number = bookChapters.indexOf(chapter) + 1;
+        setStatusMessage(`Narrating chapter ${i + 1} of ${pending.length}...`);
+        patchBookChapter(chapter.id, { status: 'running', error: undefined });
+        try {
+          const result = await processTTS(`${chapter.title}\n\n${chapter.text}`, 'audiobook', {
+            signal,
+            onProgress: (completed, total) => setProgress(Math.round(((i + completed / total) / pending.length) * 100))
+          });
+          const chapterResult: AudioResult = {
+            ...result,
+            book: { title, chapter: number },
+            filename: `${String(number).padStart(2, '0')}-${slugify(chapter.title) || 'chapter'}`
+          };
+          addAudioResult(chapterResult);
+          patchBookChapter(chapter.id, { status: 'done', resultId: chapterResult.id });
+        } catch (err: any) {
+          if (isAbortError(err)) {
+            patchBookChapter(chapter.id, { status: 'pending' });
+            throw err;
+          }
+          console.error("Chapter narration failed", chapter.title, err);
+          patchBookChapter(chapter.id, { status: 'failed', error: err.message || 'Unknown error' });
+        }
       }
-      setProgress(Math.round((completed / lines.length) * 100));
-      // Small delay to be nice to API
-      await new Promise(r => setTimeout(r, 500));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || "Failed to narrate the book.");
+    } finally {
+      setIsGenerating(false);
+      setStatusMessage('');
+      setProgress(0);
     }
+  };
+
+  const handleExportBook = async (mode: 'chapters' | 'single') => {
+    if (!bookNarrations) return;
+    const bookResults = bookNarrations.map(n => n.result);
+    const title = bookTitle.trim() || 'Untitled Book';
+    const slug = slugify(title) || 'audiobook';
 
-    setIsGenerating(false);
-    setStatusMessage('');
+    const signal = beginOperation('bookExport');
+    setIsGenerating(true);
+    setError(null);
     setProgress(0);
+    const onProgress = (completed: number, total: number) => setProgress(Math.round((completed / total) * 100));
+    const exportOptions = { onProgress, tagSettings, mp3Settings, loudnessTarget, signal };
+
+    try {
+      let zipBlob: Blob;
+      if (mode === 'chapters') {
+        setStatusMessage('Encoding chapter MP3s...');
+        const names = buildExportNames(bookResults);
+        const toc = buildBookToc(title, bookResults.map((result, i) => ({
+          index: i + 1,
+          title: bookNarrations[i].chapter.title,
+          file: `${names[i]}.mp3`,
+          durationSeconds: result.pcmData ? getPcmDuration(result.pcmData, 24000, result.channels) : null
+        })));
+        zipBlob = await exportResultsAsZip(bookResults, 'mp3', { ...exportOptions, extraFiles: { 'toc.json': toc } });
+      } else {
+        // Reuse the book joined by an earlier export, unless a chapter was narrated again since
+        const narratedAt = Math.max(...bookResults.map(r => r.timestamp));
+        const existing = audioResults.find(r =>
+          r.book?.title === title && r.book.chapter === 0 && !r.editedFrom && r.timestamp >= narratedAt &&
+          r.chapters?.length === bookNarrations.length &&
+          r.chapters.every((chapter, i) => chapter.title === bookNarrations[i].chapter.title)
+        );
+        let merged: AudioResult;
+        if (existing) {
+          merged = existing;
+        } else {
+          setStatusMessage('Joining chapters...');
+          merged = {
+            ...await mergeResults(
+              bookNarrations.map(({ chapter, result }) => ({ result, title: chapter.title })),
+              { transition: 'gap', seconds: BOOK_CHAPTER_GAP_SECONDS }
+            ),
+            text: title,
+            type: 'audiobook',
+            filename: slug,
+            book: { title, chapter: 0 }
+          };
+          addAudioResult(merged);
+        }
+        setStatusMessage('Encoding book...');
+        const toc = buildBookToc(title, merged.chapters!.map((chapter, i) => ({
+          index: i + 1,
+          title: chapter.title,
+          start: chapter.start,
+          end: chapter.end,
+          durationSeconds: chapter.end - chapter.start
+        })));
+        zipBlob = await exportResultsAsZip([merged], 'both', { ...exportOptions, extraFiles: { 'toc.json': toc } });
+      }
+      downloadBlob(zipBlob, `${slug}.zip`);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error(err);
+        setError(err.message || "Failed to export the audiobook.");
+      }
+    } finally {
+      setIsGenerating(false);
+      setStatusMessage('');
+      setProgress(0);
+    }
+  };
+
+  const handleBatchImportSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (batchImportInputRef.current) batchImportInputRef.current.value = '';
+
+    setError(null);
+    try {
+      const result = parseBatchImport(await file.text(), file.name);
+      if (result.rows.length === 0) throw new Error("The file has no rows.");
+      setBatchImport({ fileName: file.name, result });
+    } catch (err: any) {
+      setError(`Could not import ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleRunBatchImport = (rows: BatchImportRow[]) => {
+    setError(null);
+    batch.start(
+      rows.map(({ text, voice, style, language, translate, filename }) => ({ text, voice, style, language, translate, filename })),
+      { voice: selectedVoice, style: deliveryStyle, concurrency: batchConcurrency }
+    );
+    setBatchImport(null);
+  };
+
+  const handleBatchGenerate = () => {
+    if (!batchText.trim()) return;
+    const lines = batchText.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+    if (lines.length === 0) return;
+
+    setError(null);
+    batch.start(lines.map(text => ({ text })), { voice: selectedVoice, style: deliveryStyle, concurrency: batchConcurrency });
   };
 
-  const handleRecordingComplete = (blobUrl: string, blob: Blob) => {
-    const newResult: AudioResult = {
+  // Generated clips a teleprompter read can be paced to, newest first
+  const teleprompterReferences = audioResults.filter(r => r.type !== 'recording' && r.type !== 'upload' && r.pcmData);
+
+  const handleRecordingComplete = async (blobUrl: string, blob: Blob) => {
+    let newResult: AudioResult = {
       id: Date.now().toString(),
       text: "Audio Recording",
       voice: "Microphone",
@@ -275,16 +931,41 @@ const App: React.FC = () => {
       timestamp: Date.now(),
       type: 'recording',
     };
-    setAudioResults((prev) => [newResult, ...prev]);
+    // A take read off the teleprompter keeps its script, and the clip it was paced to
+    const script = teleprompter.enabled ? text.trim() : '';
+    if (script) {
+      const referenceId = teleprompter.pace === 'reference' && teleprompterReferences.some(r => r.id === teleprompter.referenceId)
+        ? teleprompter.referenceId
+        : undefined;
+      newResult = { ...newResult, text: script, script: { text: script, referenceId } };
+    }
+    // Decode to PCM so recordings get the same WAV/MP3 downloads, mixing and
+    // editing as generated speech; the compressed original is dropped
+    try {
+      let pcmData = await decodeToPcm(blob);
+      if (silenceSettings.trimRecordings) {
+        pcmData = applyEdits(pcmData, planSilenceEdits(pcmData, 1, { trimEdges: true, maxPause: null, padding: silenceSettings.padding }));
+      }
+      newResult = {
+        ...newResult,
+        pcmData,
+        blobUrl: URL.createObjectURL(new Blob([addWavHeader(pcmData)], { type: 'audio/wav' }))
+      };
+      URL.revokeObjectURL(blobUrl);
+    } catch (e) {
+      console.warn("Could not decode recording, keeping it as recorded", e);
+    }
+    addAudioResult(newResult);
   };
 
   const handleSpeechToVideo = async (audioBlob: Blob) => {
+    const signal = beginOperation('video');
     setIsGenerating(true);
     setStatusMessage('Transcribing audio...');
     setError(null);
 
     try {
-      const transcript = await transcribeAudio(audioBlob);
+      const transcript = transcriptText(await transcribeAudio(audioBlob, signal));
       if (!transcript) throw new Error("Could not transcribe audio.");
       
       setStatusMessage('Generating Video from speech...');
@@ -292,7 +973,7 @@ const App: React.FC = () => {
       const hasKey = await (window as any).aistudio.hasSelectedApiKey();
       if (!hasKey) await (window as any).aistudio.openSelectKey();
 
-      const videoUrl = await generateVideo(transcript);
+      const videoUrl = await generateVideo(transcript, signal);
       
       const newVideo: VideoResult = {
         id: Date.now().toString(),
@@ -300,10 +981,11 @@ const App: React.FC = () => {
         videoUrl,
         timestamp: Date.now()
       };
-      setVideoResults((prev) => [newVideo, ...prev]);
+      addVideoResult(newVideo);
       setActiveTab('video_results');
 
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
       if (err.message?.includes("API Key Error")) {
          await (window as any).aistudio.openSelectKey();
@@ -317,24 +999,165 @@ const App: React.FC = () => {
     }
   };
 
+  const transcribeResult = async (result: AudioResult, signal: AbortSignal) => {
+    // Clips with PCM go in chunks, so long ones stay within the request size limit
+    const transcript = result.pcmData
+      ? await transcribePcm(convertPcmChannels(result.pcmData, result.channels ?? 1, 1), { signal })
+      : await transcribeAudio(await fetch(result.blobUrl).then(r => r.blob()), signal);
+    updateAudioResult({ ...result, transcript });
+  };
+
+  const handleTranscribe = async (result: AudioResult) => {
+    transcribeAbortRef.current?.abort();
+    const controller = new AbortController();
+    transcribeAbortRef.current = controller;
+    setTranscribingId(result.id);
+    setTranscribeProgress(null);
+    setError(null);
+    try {
+      await transcribeResult(result, controller.signal);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(err.message || "Failed to transcribe audio.");
+    } finally {
+      // Transcribing another card cancels this one; leave that card busy
+      if (transcribeAbortRef.current === controller) transcribeAbortRef.current = null;
+      setTranscribingId(id => id === result.id ? null : id);
+    }
+  };
+
+  // Transcribes the selected clips that have no transcript yet, one at a time
+  // and oldest first, e.g. the parts of a split recording. A clip that fails
+  // doesn't stop the rest.
+  const handleTranscribeSelected = async () => {
+    const targets = audioResults
+      .filter(r => selectedResultIds.includes(r.id) && !r.transcript)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (targets.length === 0) return;
+
+    transcribeAbortRef.current?.abort();
+    const controller = new AbortController();
+    transcribeAbortRef.current = controller;
+    setError(null);
+    const failures: string[] = [];
+    try {
+      for (let i = 0; i < targets.length; i++) {
+        setTranscribeProgress({ completed: i, total: targets.length });
+        setTranscribingId(targets[i].id);
+        try {
+          await transcribeResult(targets[i], controller.signal);
+        } catch (err: any) {
+          if (isAbortError(err)) return;
+          console.error(err);
+          failures.push(err.message || 'Unknown error');
+        }
+      }
+      if (failures.length > 0) {
+        setError(`${failures.length} of ${targets.length} clips couldn't be transcribed: ${failures[0]}`);
+      }
+    } finally {
+      if (transcribeAbortRef.current === controller) {
+        transcribeAbortRef.current = null;
+        setTranscribeProgress(null);
+        setTranscribingId(null);
+      }
+    }
+  };
+
+  // Split parts go into history in order and are selected, ready to transcribe as a batch
+  const handleSplitResult = (parts: AudioResult[]) => {
+    // History is newest first, so add the last part first
+    parts.slice().reverse().forEach(addAudioResult);
+    setSelectedResultIds(parts.map(p => p.id));
+  };
+
+  // Meeting recordings and other audio/video files: kept in history as
+  // uploaded, and decoded to be transcribed in chunks with progress
+  const handleTranscriptionFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (transcriptionInputRef.current) transcriptionInputRef.current.value = '';
+
+    // The whole file is decoded at once, so check before taking on a long one
+    const duration = await getMediaDuration(file);
+    const isLarge = duration !== null ? duration > LARGE_UPLOAD_SECONDS : file.size > LARGE_UPLOAD_BYTES;
+    const length = duration !== null ? `${Math.round(duration / 60)} minutes long` : `${Math.round(file.size / (1024 * 1024))} MB`;
+    if (isLarge && !window.confirm(`${file.name} is ${length}. Decoding it takes a lot of memory and may slow down or crash this tab. Transcribe it anyway?`)) return;
+    await transcribeUpload(file, []);
+  };
+
+  // `parts` holds the chunks already transcribed when resuming a failed or cancelled run
+  const transcribeUpload = async (file: File, parts: TranscriptionPart[]) => {
+    const signal = beginOperation('upload');
+    setIsGenerating(true);
+    setError(null);
+    setUploadResume(null);
+    setStatusMessage(`Decoding ${file.name}...`);
+    let total = 0;
+
+    try {
+      let pcmData: Uint8Array;
+      try {
+        pcmData = await decodeToPcm(file);
+      } catch (err) {
+        console.error("Could not decode upload", err);
+        throw new Error(`Couldn't read any audio from ${file.name}. Try an MP3, WAV, M4A or MP4 file.`);
+      }
+      const transcript = await transcribePcm(pcmData, {
+        signal,
+        parts,
+        onProgress: (completed, count) => {
+          total = count;
+          setStatusMessage(count > 1
+            ? `Transcribing ${file.name}: part ${Math.min(completed + 1, count)} of ${count}...`
+            : `Transcribing ${file.name}...`);
+        }
+      });
+      // Keep the uploaded file itself (video and original quality included);
+      // the decoded PCM was only needed for transcription
+      addAudioResult({
+        id: Date.now().toString(),
+        text: transcriptText(transcript) || file.name,
+        voice: 'Upload',
+        blobUrl: URL.createObjectURL(file),
+        timestamp: Date.now(),
+        type: 'upload',
+        filename: file.name.replace(/\.[^.]+$/, ''),
+        fileExtension: file.name.match(/\.([^.]+)$/)?.[1].toLowerCase(),
+        transcript,
+      });
+    } catch (err: any) {
+      // Hold on to finished parts so the rest can be transcribed later
+      if (parts.some(Boolean)) setUploadResume({ file, parts, total });
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(err.message || "Failed to transcribe the file.");
+    } finally {
+      setIsGenerating(false);
+      setStatusMessage('');
+    }
+  };
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     if (fileInputRef.current) fileInputRef.current.value = '';
 
+    const signal = beginOperation('extract');
     setIsExtracting(true);
     setError(null);
     setStatusMessage('Reading Document...');
 
     try {
-      const extractedText = await extractTextFromDocument(file);
+      const extractedText = await extractTextFromDocument(file, signal);
       const targetSetter = activeTab === 'batch' ? setBatchText : setText;
       targetSetter(prev => {
         const newText = prev + (prev ? '\n\n' : '') + extractedText;
         return newText.slice(0, MAX_CHAR_COUNT);
       });
     } catch (err: any) {
-      setError(err.message || "Failed to extract text. Please try a different file.");
+      if (!isAbortError(err)) setError(err.message || "Failed to extract text. Please try a different file.");
     } finally {
       setIsExtracting(false);
       setStatusMessage('');
@@ -346,18 +1169,20 @@ const App: React.FC = () => {
     if (!file) return;
     if (pptxInputRef.current) pptxInputRef.current.value = '';
 
+    const signal = beginOperation('extract');
     setIsExtracting(true);
     setError(null);
     setStatusMessage('Analyzing Presentation...');
 
     try {
-      const explanation = await explainPresentation(file);
+      const explanation = await explainPresentation(file, signal);
       const targetSetter = activeTab === 'batch' ? setBatchText : setText;
       targetSetter(prev => {
         const newText = prev + (prev ? '\n\n--- Presentation Explanation ---\n\n' : '') + explanation;
         return newText.slice(0, MAX_CHAR_COUNT);
       });
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
       setError(err.message || "Failed to explain presentation.");
     } finally {
@@ -399,15 +1224,16 @@ const App: React.FC = () => {
 
   const handleGenerateScript = async () => {
     if (!writerTopic.trim()) return;
+    const signal = beginOperation('script');
     setIsGenerating(true);
     setStatusMessage("Writing Script...");
     setError(null);
     try {
-      const script = await generateScript(writerTopic, writerTone);
+      const script = await generateScript(writerTopic, writerTone, signal);
       setText(script);
       setShowWriter(false);
     } catch (err: any) {
-      setError(err.message);
+      if (!isAbortError(err)) setError(err.message);
     } finally {
       setIsGenerating(false);
       setStatusMessage("");
@@ -429,10 +1255,33 @@ const App: React.FC = () => {
               Gemini Vox
             </h1>
           </div>
-          <div className="flex gap-2">
+          <div className="relative flex items-center gap-2">
              <div className="hidden sm:block text-xs font-mono text-slate-500 border border-slate-800 rounded px-2 py-1">
-               gemini-2.5-flash
+               {providerSettings.speech === 'gemini' ? 'gemini-2.5-flash' : SPEECH_PROVIDERS[providerSettings.speech]?.label ?? 'gemini-2.5-flash'}
              </div>
+             <button
+               onClick={() => setShowSettings(!showSettings)}
+               title="Settings"
+               className={`p-1.5 rounded-lg border transition-colors ${showSettings ? 'border-indigo-500/40 text-indigo-300 bg-indigo-500/10' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+             >
+               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+               </svg>
+             </button>
+             {showSettings && (
+               <SettingsPanel
+                 settings={providerSettings}
+                 onChange={updateProviderSettings}
+                 captionSettings={captionSettings}
+                 onCaptionChange={updateCaptionSettings}
+                 tagSettings={tagSettings}
+                 onTagChange={updateTagSettings}
+                 silenceSettings={silenceSettings}
+                 onSilenceChange={updateSilenceSettings}
+                 onClose={() => setShowSettings(false)}
+               />
+             )}
           </div>
         </div>
       </header>
@@ -465,6 +1314,26 @@ const App: React.FC = () => {
               >
                 Batch
               </button>
+              <button
+                onClick={() => setActiveTab('dialogue')}
+                className={`flex-1 py-2 px-3 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${
+                  activeTab === 'dialogue' 
+                    ? 'bg-indigo-600 text-white shadow-md' 
+                    : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                Dialogue
+              </button>
+              <button
+                onClick={() => setActiveTab('audiobook')}
+                className={`flex-1 py-2 px-3 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${
+                  activeTab === 'audiobook' 
+                    ? 'bg-indigo-600 text-white shadow-md' 
+                    : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                Audiobook
+              </button>
               <button
                 onClick={() => setActiveTab('record')}
                 className={`flex-1 py-2 px-3 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${
@@ -496,6 +1365,11 @@ const App: React.FC = () => {
                        ))}
                      </select>
                    </div>
+                   <Mp3SettingsControls
+                     settings={mp3Settings}
+                     onChange={updateMp3Settings}
+                     disabled={!!exportProgress}
+                   />
                    <div className="flex items-center gap-2">
                      <input 
                        type="text" 
@@ -539,6 +1413,26 @@ const App: React.FC = () => {
                              </button>
                            )}
 
+                           {activeTab === 'batch' && (
+                             <>
+                               <input
+                                  type="file"
+                                  accept=".csv,.tsv,.json,text/csv,application/json"
+                                  ref={batchImportInputRef}
+                                  className="hidden"
+                                  onChange={handleBatchImportSelect}
+                               />
+                               <button
+                                 onClick={() => batchImportInputRef.current?.click()}
+                                 disabled={isExtracting || isGenerating || batch.isRunning}
+                                 title="Rows with text, voice, language, translate, rate, emotion, intensity, instruction and filename columns"
+                                 className="flex items-center gap-1.5 text-xs font-medium text-emerald-400 hover:text-emerald-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-emerald-500/10 px-2.5 py-1.5 rounded-lg border border-emerald-500/20"
+                               >
+                                 Import CSV/JSON
+                               </button>
+                             </>
+                           )}
+
                            <input 
                               type="file" 
                               accept=".txt,.pdf"
@@ -659,6 +1553,9 @@ const App: React.FC = () => {
                         className={`w-full min-h-[160px] bg-slate-900 border border-slate-700 rounded-xl p-4 text-base focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all resize-none placeholder:text-slate-600 disabled:opacity-50 font-mono text-sm leading-relaxed ${isListening ? 'ring-2 ring-red-500/50 border-red-500/50' : ''}`}
                       />
                     </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Markup: <span className="font-mono text-slate-400">[pause 1.5s]</span>, <span className="font-mono text-slate-400">*emphasis*</span>, <span className="font-mono text-slate-400">[voice=Charon]...[/voice]</span>
+                    </p>
                   </div>
 
                   <div>
@@ -672,6 +1569,12 @@ const App: React.FC = () => {
                     />
                   </div>
 
+                  <StyleControls
+                    style={deliveryStyle}
+                    onChange={setDeliveryStyle}
+                    disabled={isGenerating || isExtracting}
+                  />
+
                   {/* BACKGROUND MUSIC */}
                   <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800">
                     <label className="block text-sm font-medium text-slate-300 mb-2">
@@ -722,36 +1625,89 @@ const App: React.FC = () => {
                          />
                          <span className="text-xs text-slate-500 w-8">{Math.round(musicVolume * 100)}%</span>
                        </div>
+
+                       <div className="flex items-center gap-2 flex-grow w-full sm:w-auto">
+                         <span className="text-xs text-slate-500 w-12">Pan</span>
+                         <input 
+                           type="range" 
+                           min="-1" max="1" step="0.1" 
+                           value={speechPan}
+                           onChange={(e) => setSpeechPan(parseFloat(e.target.value))}
+                           onDoubleClick={() => setSpeechPan(0)}
+                           title="Speech position in the stereo field (double-click to centre)"
+                           className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-indigo-400"
+                         />
+                         <span className="text-xs text-slate-500 w-8">{speechPan === 0 ? 'C' : `${Math.round(Math.abs(speechPan) * 100)}${speechPan < 0 ? 'L' : 'R'}`}</span>
+                       </div>
                        {musicFile && (
                          <button onClick={() => setMusicFile(null)} className="text-xs text-red-400 hover:text-red-300">
                            Clear
                          </button>
                        )}
                     </div>
+                    {musicFile && (
+                      <MusicMixControls
+                        settings={mixSettings}
+                        onChange={setMixSettings}
+                        disabled={isGenerating}
+                      />
+                    )}
                   </div>
 
                   {/* Progress Bar (Visible when active) */}
                   {(isGenerating || isExtracting) && (
-                    <div className="w-full bg-slate-700 rounded-full h-1.5 mt-2 overflow-hidden">
-                      <div 
-                        className="bg-indigo-500 h-1.5 rounded-full transition-all duration-300 ease-out relative overflow-hidden" 
-                        style={{ width: `${progress > 0 ? progress : 100}%` }}
+                    <ProgressBar progress={progress} onCancel={() => handleCancel('speech', 'translate', 'script', 'extract')} />
+                  )}
+
+                  {activeTab === 'batch' && batchImport && (
+                    <BatchImportPreview
+                      fileName={batchImport.fileName}
+                      result={batchImport.result}
+                      onRun={handleRunBatchImport}
+                      onDiscard={() => setBatchImport(null)}
+                      disabled={batch.isRunning || isGenerating || isExtracting}
+                    />
+                  )}
+
+                  {activeTab === 'batch' && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-slate-500">Parallel requests:</span>
+                      <select
+                        value={batchConcurrency}
+                        onChange={(e) => setBatchConcurrency(parseInt(e.target.value))}
+                        disabled={batch.isRunning}
+                        className="bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
                       >
-                         {/* Animated Shimmer for indeterminate state */}
-                         {progress === 0 && (
-                            <div className="absolute inset-0 bg-white/20 animate-[shimmer_1s_infinite] skew-x-12"></div>
-                         )}
-                      </div>
+                        {[1, 2, 3, 4, 5].map(n => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
                     </div>
                   )}
 
+                  {activeTab === 'batch' && batch.job && (
+                    <>
+                      <BatchJobView
+                        job={batch.job}
+                        onPause={batch.pause}
+                        onResume={batch.resume}
+                        onCancel={batch.cancel}
+                        onRetryFailed={batch.retryFailed}
+                        onDismiss={batch.dismiss}
+                      />
+                      {batch.isRunning && statusMessage && (
+                        <p className="text-xs text-amber-400/80">{statusMessage}</p>
+                      )}
+                    </>
+                  )}
+
                   <button
                     onClick={activeTab === 'batch' ? handleBatchGenerate : handleGenerateTTS}
-                    disabled={(activeTab === 'batch' ? !batchText.trim() : !text.trim()) || isGenerating || isExtracting}
+                    disabled={(activeTab === 'batch' ? !batchText.trim() || batch.isRunning : !text.trim()) || isGenerating || isExtracting}
                     className={`
                       w-full py-3.5 px-6 rounded-xl font-semibold text-white shadow-lg shadow-indigo-500/20
                       flex items-center justify-center gap-2 transition-all transform active:scale-[0.98]
-                      ${(activeTab === 'batch' ? !batchText.trim() : !text.trim()) || isGenerating || isExtracting
+                      ${(activeTab === 'batch' ? !batchText.trim() || batch.isRunning : !text.trim()) || isGenerating || isExtracting
                         ? 'bg-slate-700 cursor-not-allowed text-slate-400 shadow-none' 
                         : 'bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/30'
                       }
@@ -765,7 +1721,129 @@ const App: React.FC = () => {
                          </svg>
                          {statusMessage}
                        </span>
-                    ) : (activeTab === 'batch' ? 'Generate Batch' : 'Generate Speech')}
+                    ) : (activeTab === 'batch' ? (batch.isRunning ? 'Batch Running...' : 'Generate Batch') : 'Generate Speech')}
+                  </button>
+                </>
+              )}
+
+              {/* --- DIALOGUE TAB --- */}
+              {activeTab === 'dialogue' && (
+                <>
+                  <DialogueEditor
+                    script={dialogueText}
+                    onScriptChange={setDialogueText}
+                    speakers={parsedDialogue.speakers}
+                    speakerVoices={resolvedSpeakerVoices}
+                    onSpeakerVoiceChange={(speaker, voice) => setSpeakerVoices(prev => ({ ...prev, [speaker]: voice }))}
+                    disabled={isGenerating}
+                  />
+
+                  <StyleControls
+                    style={deliveryStyle}
+                    onChange={setDeliveryStyle}
+                    disabled={isGenerating}
+                  />
+
+                  {isGenerating && (
+                    <ProgressBar progress={progress} onCancel={() => handleCancel('dialogue')} />
+                  )}
+
+                  <button
+                    onClick={handleGenerateDialogue}
+                    disabled={parsedDialogue.turns.length === 0 || isGenerating}
+                    className={`
+                      w-full py-3.5 px-6 rounded-xl font-semibold text-white shadow-lg shadow-indigo-500/20
+                      flex items-center justify-center gap-2 transition-all transform active:scale-[0.98]
+                      ${parsedDialogue.turns.length === 0 || isGenerating
+                        ? 'bg-slate-700 cursor-not-allowed text-slate-400 shadow-none' 
+                        : 'bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/30'
+                      }
+                    `}
+                  >
+                    {isGenerating ? (
+                       <span className="flex items-center gap-2">
+                         <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                         </svg>
+                         {statusMessage}
+                       </span>
+                    ) : 'Generate Dialogue'}
+                  </button>
+                </>
+              )}
+
+              {/* --- AUDIOBOOK TAB --- */}
+              {activeTab === 'audiobook' && (
+                <>
+                  <AudiobookEditor
+                    title={bookTitle}
+                    onTitleChange={setBookTitle}
+                    chapters={bookChapters}
+                    onChaptersChange={setBookChapters}
+                    onImport={handleBookImport}
+                    isImporting={isExtracting}
+                    disabled={isGenerating || isExtracting}
+                  />
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-3">
+                      Narrator Voice
+                    </label>
+                    <VoiceSelector
+                      selectedVoice={selectedVoice}
+                      onSelect={setSelectedVoice}
+                      disabled={isGenerating || isExtracting}
+                    />
+                  </div>
+
+                  <StyleControls
+                    style={deliveryStyle}
+                    onChange={setDeliveryStyle}
+                    disabled={isGenerating || isExtracting}
+                  />
+
+                  {(isGenerating || isExtracting) && (
+                    <>
+                      <ProgressBar progress={progress} onCancel={() => handleCancel('bookImport', 'bookNarration', 'bookExport')} />
+                      {statusMessage && <p className="text-xs text-slate-400">{statusMessage}</p>}
+                    </>
+                  )}
+
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <button
+                      onClick={() => handleExportBook('chapters')}
+                      disabled={!bookNarrations || isGenerating}
+                      title={bookNarrations ? undefined : 'Narrate every chapter first'}
+                      className="flex-1 py-2 px-3 text-xs font-medium rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Export Chapter MP3s + TOC
+                    </button>
+                    <button
+                      onClick={() => handleExportBook('single')}
+                      disabled={!bookNarrations || isGenerating}
+                      title={bookNarrations ? undefined : 'Narrate every chapter first'}
+                      className="flex-1 py-2 px-3 text-xs font-medium rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Export Single File + TOC
+                    </button>
+                  </div>
+
+                  <button
+                    onClick={handleNarrateBook}
+                    disabled={unnarratedChapters.length === 0 || isGenerating || isExtracting}
+                    className={`
+                      w-full py-3.5 px-6 rounded-xl font-semibold text-white shadow-lg shadow-indigo-500/20
+                      flex items-center justify-center gap-2 transition-all transform active:scale-[0.98]
+                      ${unnarratedChapters.length === 0 || isGenerating || isExtracting
+                        ? 'bg-slate-700 cursor-not-allowed text-slate-400 shadow-none' 
+                        : 'bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/30'
+                      }
+                    `}
+                  >
+                    {isGenerating ? 'Working...' : (
+                      bookChapters.some(c => c.status === 'done') ? 'Narrate Remaining Chapters' : 'Narrate Book'
+                    )}
                   </button>
                 </>
               )}
@@ -776,14 +1854,71 @@ const App: React.FC = () => {
                    <div className="text-center mb-4">
                      <h3 className="text-lg font-medium text-slate-200">Voice Recorder</h3>
                      <p className="text-sm text-slate-500">Record audio to download or convert to video.</p>
+                     <label className="inline-flex items-center gap-1.5 mt-2 text-xs text-slate-400 cursor-pointer">
+                       <input
+                         type="checkbox"
+                         checked={teleprompter.enabled}
+                         onChange={(e) => updateTeleprompter({ ...teleprompter, enabled: e.target.checked })}
+                         disabled={recorderState !== 'idle'}
+                         className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-900 accent-indigo-500"
+                       />
+                       Teleprompter: read the current script while recording
+                     </label>
                    </div>
+                   {teleprompter.enabled && (
+                     <Teleprompter
+                       text={text}
+                       settings={teleprompter}
+                       onChange={updateTeleprompter}
+                       references={teleprompterReferences}
+                       recorderState={recorderState}
+                     />
+                   )}
                    <AudioRecorder 
                       onRecordingComplete={handleRecordingComplete} 
                       onGenerateVideo={handleSpeechToVideo}
+                      onStateChange={setRecorderState}
                    />
+                   <div className="mt-4 flex flex-col items-center gap-1">
+                     <input
+                       type="file"
+                       accept="audio/*,video/*,.mp3,.wav,.m4a,.mp4"
+                       ref={transcriptionInputRef}
+                       className="hidden"
+                       onChange={handleTranscriptionFileSelect}
+                     />
+                     <button
+                       onClick={() => transcriptionInputRef.current?.click()}
+                       disabled={isGenerating || recorderState !== 'idle'}
+                       className="flex items-center gap-1.5 text-xs font-medium text-indigo-400 hover:text-indigo-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-indigo-500/10 px-2.5 py-1.5 rounded-lg border border-indigo-500/20"
+                     >
+                       <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                       </svg>
+                       Transcribe a file
+                     </button>
+                     <p className="text-[10px] text-slate-500">Audio or video (MP3, WAV, M4A, MP4); long files are split into parts</p>
+                     {uploadResume && !isGenerating && (
+                       <div className="mt-1 flex flex-wrap items-center justify-center gap-2 text-xs text-slate-400">
+                         <span>
+                           {uploadResume.file.name}: {uploadResume.parts.filter(Boolean).length} of {uploadResume.total} parts transcribed.
+                         </span>
+                         <button
+                           onClick={() => transcribeUpload(uploadResume.file, uploadResume.parts)}
+                           className="text-indigo-400 hover:text-indigo-300"
+                         >
+                           Resume
+                         </button>
+                         <button onClick={() => setUploadResume(null)} className="text-slate-500 hover:text-red-400">
+                           Discard
+                         </button>
+                       </div>
+                     )}
+                   </div>
                    {isGenerating && (
-                     <div className="mt-4 text-center text-sm text-purple-400 animate-pulse">
-                       {statusMessage}
+                     <div className="mt-4 flex items-center justify-center gap-3 text-sm">
+                       <span className="text-purple-400 animate-pulse">{statusMessage}</span>
+                       <button onClick={() => handleCancel('video', 'upload')} className="text-xs text-slate-400 hover:text-red-400">Cancel</button>
                      </div>
                    )}
                 </div>
@@ -805,24 +1940,149 @@ const App: React.FC = () => {
           {/* Right Column: Results */}
           <div className="lg:col-span-5">
             <div className="sticky top-24 space-y-4">
-              <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
-                <svg className="w-5 h-5 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                History & Results
-              </h2>
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                  <svg className="w-5 h-5 text-indigo-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  History & Results
+                </h2>
+                <div className="flex items-center gap-3">
+                  {storageUsage && (
+                    <span
+                      className="text-[10px] font-mono text-slate-500"
+                      title={`${formatBytes(storageUsage.usage)} of ${formatBytes(storageUsage.quota)} browser storage used`}
+                    >
+                      {formatBytes(storageUsage.usage)} used
+                    </span>
+                  )}
+                  {(audioResults.length > 0 || videoResults.length > 0) && (
+                    <button
+                      onClick={handleClearHistory}
+                      className="text-xs text-red-400 hover:text-red-300"
+                    >
+                      Clear All
+                    </button>
+                  )}
+                </div>
+              </div>
               
               <div className="space-y-4 min-h-[300px]">
                 {/* Mix of Video and Audio results could be sorted by timestamp, but simpler to stack for now */}
                 
                 {/* Display Videos First */}
                 {videoResults.map((result) => (
-                  <VideoCard key={result.id} result={result} />
+                  <VideoCard key={result.id} result={result} onDelete={handleDeleteVideo} />
                 ))}
 
+                {/* Bulk actions over selected audio */}
+                {audioResults.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 bg-slate-900/50 p-2 rounded-lg border border-slate-800">
+                    <span className="text-xs text-slate-500 px-1">
+                      {selectedResultIds.length > 0 ? `${selectedResultIds.length} selected` : 'None selected (all)'}
+                    </span>
+                    <button
+                      onClick={() => setSelectedResultIds(selectedResultIds.length === audioResults.length ? [] : audioResults.map(r => r.id))}
+                      className="text-xs text-indigo-400 hover:text-indigo-300"
+                    >
+                      {selectedResultIds.length === audioResults.length ? 'Clear' : 'Select All'}
+                    </button>
+                    <div className="flex items-center gap-2 ml-auto">
+                      {transcribeProgress ? (
+                        <button
+                          onClick={() => transcribeAbortRef.current?.abort()}
+                          title="Cancel transcribing the selected clips"
+                          className="text-xs px-2.5 py-1 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-700 hover:text-red-400 transition-colors"
+                        >
+                          Transcribing {transcribeProgress.completed + 1}/{transcribeProgress.total}... Cancel
+                        </button>
+                      ) : (
+                        <button
+                          onClick={handleTranscribeSelected}
+                          disabled={!audioResults.some(r => selectedResultIds.includes(r.id) && !r.transcript)}
+                          title="Transcribe the selected clips that have no transcript yet, one after another"
+                          className="text-xs px-2.5 py-1 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Transcribe
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setShowMerge(!showMerge)}
+                        disabled={selectedResultIds.length < 2}
+                        title="Join the selected clips into one program with chapters"
+                        className="text-xs px-2.5 py-1 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Merge
+                      </button>
+                      <select
+                        value={zipFormat}
+                        onChange={(e) => setZipFormat(e.target.value as ZipAudioFormat)}
+                        disabled={!!exportProgress}
+                        className="bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+                      >
+                        <option value="both">WAV + MP3</option>
+                        <option value="wav">WAV</option>
+                        <option value="mp3">MP3</option>
+                      </select>
+                      <select
+                        value={loudnessTarget ?? ''}
+                        onChange={(e) => setLoudnessTarget(e.target.value === '' ? null : Number(e.target.value))}
+                        disabled={!!exportProgress}
+                        title="Normalize every exported clip to the same loudness"
+                        className="bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+                      >
+                        <option value="">Original levels</option>
+                        {LOUDNESS_TARGETS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                      </select>
+                      <button
+                        onClick={handleDownloadZip}
+                        disabled={!!exportProgress}
+                        className="text-xs px-2.5 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {exportProgress
+                          ? `Zipping ${exportProgress.completed}/${exportProgress.total}...`
+                          : (selectedResultIds.length > 0 ? 'Download ZIP' : 'Download All')}
+                      </button>
+                      {exportProgress && (
+                        <button
+                          onClick={() => zipAbortRef.current?.abort()}
+                          className="text-xs text-slate-500 hover:text-red-400"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {showMerge && selectedResultIds.length >= 2 && (
+                  <MergePanel
+                    key={selectedResultIds.join(',')}
+                    results={audioResults.filter(r => selectedResultIds.includes(r.id)).sort((a, b) => a.timestamp - b.timestamp)}
+                    onMerge={handleMerge}
+                    onClose={() => setShowMerge(false)}
+                    isMerging={isMerging}
+                  />
+                )}
+
                 {/* Display Audio */}
                 {audioResults.map((result) => (
-                  <AudioCard key={result.id} result={result} />
+                  <AudioCard
+                    key={result.id}
+                    result={result}
+                    onDelete={handleDeleteAudio}
+                    selected={selectedResultIds.includes(result.id)}
+                    onSelectChange={handleSelectResult}
+                    captionSettings={captionSettings}
+                    tagSettings={tagSettings}
+                    mp3Settings={mp3Settings}
+                    onEdit={addAudioResult}
+                    onSplit={handleSplitResult}
+                    silenceSettings={silenceSettings}
+                    scriptReference={result.script?.referenceId ? audioResults.find(r => r.id === result.script.referenceId) : undefined}
+                    onTranscribe={handleTranscribe}
+                    isTranscribing={transcribingId === result.id}
+                  />
                 ))}
 
                 {audioResults.length === 0 && videoResults.length === 0 && (
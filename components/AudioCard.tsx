@@ -1,18 +1,56 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { AudioResult } from '../types';
-import { convertToMp3 } from '../utils/audio';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
+import { AudioResult, CaptionSettings, TagSettings, Mp3Settings, SilenceSettings } from '../types';
+import { DEFAULT_CAPTION_SETTINGS, DEFAULT_TAG_SETTINGS, DEFAULT_MP3_SETTINGS, DEFAULT_SILENCE_SETTINGS } from '../constants';
+import { describeDeliveryStyle } from '../utils/text';
+import { buildCueSheet } from '../utils/merge';
+import { buildCues, formatSrt, formatVtt } from '../utils/subtitles';
+import { downloadBlob } from '../utils/export';
+import { buildResultTags } from '../utils/id3';
+import { encodeMp3 } from '../utils/mp3';
+import { isAbortError } from '../services/scheduler';
+import ExportDialog from './ExportDialog';
+import WaveformEditor from './WaveformEditor';
+import TranscriptView from './TranscriptView';
 
 interface AudioCardProps {
   result: AudioResult;
+  onDelete?: (id: string) => void;
+  // Selection for bulk actions (ZIP export); the checkbox is hidden without a handler
+  selected?: boolean;
+  onSelectChange?: (id: string, selected: boolean) => void;
+  // Cue length and wrapping for SRT/VTT downloads
+  captionSettings?: CaptionSettings;
+  // Album and cover art for the MP3's ID3 tag; only read when an MP3 is
+  // downloaded, so editing them doesn't re-encode anything
+  tagSettings?: TagSettings;
+  // Bitrate, channels and sample rate for the MP3 download
+  mp3Settings?: Mp3Settings;
+  // Receives edited copies from the waveform editor; editing is hidden without it
+  onEdit?: (result: AudioResult) => void;
+  // Receives the parts when the editor splits the clip at pauses
+  onSplit?: (parts: AudioResult[]) => void;
+  // Padding and pause lengths for the editor's silence tools
+  silenceSettings?: SilenceSettings;
+  // The generated clip a teleprompter take was paced to, if it's still in history
+  scriptReference?: AudioResult;
+  // Requests a speech-to-text transcript for the clip; the button is hidden without it
+  onTranscribe?: (result: AudioResult) => void;
+  isTranscribing?: boolean;
 }
 
-const AudioCard: React.FC<AudioCardProps> = ({ result }) => {
+const AudioCard: React.FC<AudioCardProps> = ({ result, onDelete, selected = false, onSelectChange, captionSettings = DEFAULT_CAPTION_SETTINGS, tagSettings = DEFAULT_TAG_SETTINGS, mp3Settings = DEFAULT_MP3_SETTINGS, onEdit, onSplit, silenceSettings = DEFAULT_SILENCE_SETTINGS, scriptReference, onTranscribe, isTranscribing = false }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(1);
-  const [mp3Url, setMp3Url] = useState<string | null>(null);
+  // Fraction encoded while an MP3 download is being prepared
+  const [mp3Progress, setMp3Progress] = useState<number | null>(null);
+  const [mp3Error, setMp3Error] = useState<string | null>(null);
+  const mp3AbortRef = useRef<AbortController | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(true);
 
   useEffect(() => {
     const audio = audioRef.current;
@@ -41,16 +79,10 @@ const AudioCard: React.FC<AudioCardProps> = ({ result }) => {
     };
   }, []);
 
-  // Generate MP3 link on mount if PCM data exists
+  // Stop any running MP3 encode when the card goes away
   useEffect(() => {
-    if (result.pcmData && !mp3Url) {
-      // Small delay to not block UI immediately
-      setTimeout(() => {
-         const mp3Blob = convertToMp3(result.pcmData!, 24000, 1);
-         setMp3Url(URL.createObjectURL(mp3Blob));
-      }, 100);
-    }
-  }, [result.pcmData, mp3Url]);
+    return () => mp3AbortRef.current?.abort();
+  }, []);
 
   const togglePlay = () => {
     if (!audioRef.current) return;
@@ -78,24 +110,91 @@ const AudioCard: React.FC<AudioCardProps> = ({ result }) => {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const seekTo = (time: number) => {
     if (!audioRef.current) return;
-    const time = Number(e.target.value);
     audioRef.current.currentTime = time;
     setProgress(time);
   };
 
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo(Number(e.target.value));
+  };
+
   const isRecording = result.type === 'recording';
-  const defaultExtension = isRecording ? 'webm' : 'wav';
-  const defaultName = `gemini-vox-${result.id}.${defaultExtension}`;
-  const mp3Name = `gemini-vox-${result.id}.mp3`;
+  const styleLabels = describeDeliveryStyle(result.style);
+  const styleInstruction = result.style?.instruction.trim();
+  const loudness = result.loudness;
+  // Edited recordings are re-encoded as WAV; uploads keep their own format
+  const defaultExtension = result.fileExtension || (isRecording && !result.pcmData ? 'webm' : 'wav');
+  const baseName = result.filename || `gemini-vox-${result.id}`;
+  const defaultName = `${baseName}.${defaultExtension}`;
+  const mp3Name = `${baseName}.mp3`;
+
+  const cueUrl = useMemo(() => {
+    if (!result.chapters?.length) return null;
+    const sheet = buildCueSheet(result.chapters, defaultName, baseName, result.voice);
+    return URL.createObjectURL(new Blob([sheet], { type: 'application/x-cue' }));
+  }, [result.chapters, defaultName, baseName, result.voice]);
+
+  useEffect(() => {
+    return () => {
+      if (cueUrl) URL.revokeObjectURL(cueUrl);
+    };
+  }, [cueUrl]);
+
+  // Encodes in a worker on demand; clicking again while encoding cancels
+  const handleMp3Download = async () => {
+    if (mp3AbortRef.current) {
+      mp3AbortRef.current.abort();
+      return;
+    }
+    if (!result.pcmData) return;
+    const controller = new AbortController();
+    mp3AbortRef.current = controller;
+    setMp3Error(null);
+    setMp3Progress(0);
+    try {
+      const mp3Blob = await encodeMp3(result.pcmData, 24000, {
+        settings: mp3Settings,
+        tags: buildResultTags(result, tagSettings),
+        channels: result.channels,
+        onProgress: setMp3Progress,
+        signal: controller.signal
+      });
+      downloadBlob(mp3Blob, mp3Name);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error("MP3 encoding failed", err);
+        setMp3Error(err.message || 'MP3 encoding failed.');
+      }
+    } finally {
+      mp3AbortRef.current = null;
+      setMp3Progress(null);
+    }
+  };
+
+  const downloadCaptions = (format: 'srt' | 'vtt') => {
+    if (!result.segments) return;
+    const cues = buildCues(result.segments, captionSettings);
+    const content = format === 'srt' ? formatSrt(cues) : formatVtt(cues);
+    downloadBlob(new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), `${baseName}.${format}`);
+  };
 
   return (
-    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-sm transition-all hover:border-slate-600">
+    <div className={`bg-slate-800 rounded-xl border overflow-hidden shadow-sm transition-all ${selected ? 'border-indigo-500/60' : 'border-slate-700 hover:border-slate-600'}`}>
       <div className="p-5">
         <div className="flex justify-between items-start mb-4">
           <div>
             <div className="flex items-center gap-2 mb-1">
+              {onSelectChange && (
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={(e) => onSelectChange(result.id, e.target.checked)}
+                  title="Select for bulk download"
+                  className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-900 accent-indigo-500 cursor-pointer"
+                />
+              )}
               {isRecording ? (
                 <span className="flex items-center gap-1 text-xs font-bold text-red-400 uppercase tracking-wider">
                   <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" /></svg>
@@ -110,10 +209,93 @@ const AudioCard: React.FC<AudioCardProps> = ({ result }) => {
               <span className="text-xs text-slate-500">
                 {new Date(result.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </span>
+              {result.language && (
+                <>
+                  <span className="text-slate-500 text-xs">•</span>
+                  <span className="text-xs text-slate-500">{result.language}</span>
+                </>
+              )}
+              {result.channels === 2 && (
+                <>
+                  <span className="text-slate-500 text-xs">•</span>
+                  <span className="text-xs text-slate-500">Stereo</span>
+                </>
+              )}
+              {result.script && (
+                <>
+                  <span className="text-slate-500 text-xs">•</span>
+                  <span className="text-xs text-slate-500" title="Recorded with the teleprompter; the card text is the script that was read">
+                    Read from script{scriptReference ? ` (paced to ${scriptReference.voice} clip)` : ''}
+                  </span>
+                </>
+              )}
+              {result.editedFrom && (
+                <>
+                  <span className="text-slate-500 text-xs">•</span>
+                  <span className="text-xs text-slate-500">Edited</span>
+                </>
+              )}
+              {loudness && isFinite(loudness.integrated) && (
+                <>
+                  <span className="text-slate-500 text-xs">•</span>
+                  <span
+                    className={`text-xs ${loudness.truePeak > -1 ? 'text-amber-400/80' : 'text-slate-500'}`}
+                    title={`Integrated loudness (EBU R128). True peak ${loudness.truePeak.toFixed(1)} dBTP`}
+                  >
+                    {loudness.integrated.toFixed(1)} LUFS
+                  </span>
+                </>
+              )}
             </div>
+            {result.book && (
+              <div className="text-[10px] text-amber-300/80 mb-1 truncate">
+                {result.book.title}{result.book.chapter > 0 ? ` · Chapter ${result.book.chapter}` : ' · Full book'}
+              </div>
+            )}
+            {result.filename && (
+              <div className="text-[10px] font-mono text-slate-500 mb-1 truncate">{result.filename}</div>
+            )}
+            {result.speakers && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {Object.entries(result.speakers).map(([speaker, voice]) => (
+                  <span key={speaker} className="text-[10px] px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">
+                    {speaker} → {voice}
+                  </span>
+                ))}
+              </div>
+            )}
+            {(styleLabels.length > 0 || styleInstruction) && (
+              <div className="flex flex-wrap items-center gap-1 mb-2" title={styleInstruction || undefined}>
+                {styleLabels.map(label => (
+                  <span key={label} className="text-[10px] px-2 py-0.5 rounded-full bg-indigo-500/10 text-indigo-300 border border-indigo-500/20">
+                    {label}
+                  </span>
+                ))}
+                {styleInstruction && (
+                  <span className="text-[10px] text-slate-500 italic truncate max-w-[12rem]">
+                    {styleInstruction}
+                  </span>
+                )}
+              </div>
+            )}
             <p className={`text-sm line-clamp-2 ${isRecording ? 'text-slate-400 italic' : 'text-slate-300 italic border-l-2 border-slate-600 pl-3'}`}>
               "{result.text}"
             </p>
+            {result.chapters && result.chapters.length > 0 && (
+              <ol className="mt-2 space-y-0.5">
+                {result.chapters.map((chapter, i) => (
+                  <li key={i}>
+                    <button
+                      onClick={() => seekTo(chapter.start)}
+                      className={`flex items-baseline gap-2 text-xs text-left w-full rounded px-1 hover:bg-slate-700/50 ${progress >= chapter.start && progress < chapter.end ? 'text-indigo-300' : 'text-slate-400'}`}
+                    >
+                      <span className="font-mono text-[10px] text-slate-500">{formatTime(chapter.start)}</span>
+                      <span className="truncate">{chapter.title}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
         </div>
 
@@ -151,6 +333,17 @@ const AudioCard: React.FC<AudioCardProps> = ({ result }) => {
               </div>
             </div>
           </div>
+
+          {showEditor && onEdit && (
+            <WaveformEditor
+              result={result}
+              currentTime={progress}
+              onSeek={seekTo}
+              onEdit={onEdit}
+              onSplit={onSplit}
+              silenceSettings={silenceSettings}
+            />
+          )}
           
           {/* Volume Slider */}
           <div className="flex items-center gap-2 px-1">
@@ -169,19 +362,66 @@ const AudioCard: React.FC<AudioCardProps> = ({ result }) => {
           </div>
         </div>
 
+        {result.transcript && showTranscript && (
+          <div className="mt-4">
+            <TranscriptView
+              transcript={result.transcript}
+              currentTime={progress}
+              onSeek={seekTo}
+              baseName={baseName}
+              captionSettings={captionSettings}
+            />
+          </div>
+        )}
+
         <div className="mt-4 flex flex-wrap justify-end gap-2">
-           {/* MP3 Download Option (only if converted) */}
-           {mp3Url && (
+          {onDelete && (
+            <button
+              onClick={() => onDelete(result.id)}
+              title="Delete"
+              className="mr-auto flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+            </button>
+          )}
+           {result.segments && result.segments.length > 0 && (['srt', 'vtt'] as const).map(format => (
+             <button
+              key={format}
+              onClick={() => downloadCaptions(format)}
+              title={`Download ${format.toUpperCase()} captions`}
+              className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-300 bg-slate-700 hover:bg-slate-600 hover:text-white rounded-lg transition-colors"
+             >
+               {format.toUpperCase()}
+             </button>
+           ))}
+
+           {cueUrl && (
              <a
-              href={mp3Url}
-              download={mp3Name}
+              href={cueUrl}
+              download={`${baseName}.cue`}
+              title="Cue sheet with chapter markers (pairs with the WAV download)"
               className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-300 bg-slate-700 hover:bg-slate-600 hover:text-white rounded-lg transition-colors"
+             >
+               CUE
+             </a>
+           )}
+
+           {/* MP3 Download Option (only with raw PCM) */}
+           {result.pcmData && (
+             <button
+              onClick={handleMp3Download}
+              title={mp3Progress !== null
+                ? 'Cancel MP3 encoding'
+                : mp3Error || `${mp3Settings.bitrate} kbps ${mp3Settings.channels}, ${mp3Settings.sampleRate / 1000} kHz`}
+              className={`flex items-center gap-2 px-3 py-2 text-xs font-medium bg-slate-700 hover:bg-slate-600 hover:text-white rounded-lg transition-colors ${mp3Error ? 'text-red-400' : 'text-slate-300'}`}
              >
                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
                </svg>
-               MP3
-             </a>
+               {mp3Progress !== null ? `MP3 ${Math.round(mp3Progress * 100)}%` : 'MP3'}
+             </button>
            )}
 
           <a
@@ -194,7 +434,53 @@ const AudioCard: React.FC<AudioCardProps> = ({ result }) => {
             </svg>
             {defaultExtension.toUpperCase()}
           </a>
+
+          {onEdit && (
+            <button
+              onClick={() => setShowEditor(!showEditor)}
+              title="Waveform with trim, delete and insert-silence edits"
+              className={`flex items-center gap-2 px-3 py-2 text-xs font-medium rounded-lg transition-colors ${showEditor ? 'bg-indigo-600 text-white' : 'text-slate-300 bg-slate-700 hover:bg-slate-600 hover:text-white'}`}
+            >
+              Edit
+            </button>
+          )}
+
+          {result.transcript ? (
+            <button
+              onClick={() => setShowTranscript(!showTranscript)}
+              title="Timestamped transcript; click a line to jump to it"
+              className={`flex items-center gap-2 px-3 py-2 text-xs font-medium rounded-lg transition-colors ${showTranscript ? 'bg-indigo-600 text-white' : 'text-slate-300 bg-slate-700 hover:bg-slate-600 hover:text-white'}`}
+            >
+              Transcript
+            </button>
+          ) : onTranscribe && (
+            <button
+              onClick={() => onTranscribe(result)}
+              disabled={isTranscribing}
+              title="Transcribe with timestamps and speaker labels"
+              className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-300 bg-slate-700 hover:bg-slate-600 hover:text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isTranscribing ? 'Transcribing...' : 'Transcribe'}
+            </button>
+          )}
+
+          <button
+            onClick={() => setShowExport(!showExport)}
+            title="WAV at other rates and bit depths, FLAC or Ogg/Opus"
+            className={`flex items-center gap-2 px-3 py-2 text-xs font-medium rounded-lg transition-colors ${showExport ? 'bg-indigo-600 text-white' : 'text-slate-300 bg-slate-700 hover:bg-slate-600 hover:text-white'}`}
+          >
+            Export…
+          </button>
         </div>
+
+        {showExport && (
+          <ExportDialog
+            result={result}
+            baseName={baseName}
+            tagSettings={tagSettings}
+            onClose={() => setShowExport(false)}
+          />
+        )}
       </div>
       
       {/* Hidden Native Audio Element */}
@@ -1,22 +1,89 @@
 import React, { useState, useRef, useEffect } from 'react';
 
+export type RecorderState = 'idle' | 'recording' | 'paused';
+
 interface AudioRecorderProps {
   onRecordingComplete: (blobUrl: string, blob: Blob) => void;
   onGenerateVideo?: (blob: Blob) => void;
+  // Lets the teleprompter follow recording, pausing and stopping
+  onStateChange?: (state: RecorderState) => void;
 }
 
-const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onGenerateVideo }) => {
+// Preferred container/codec order; Safari only records MP4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+// Samples this close to full scale count as clipping
+const CLIP_LEVEL = 0.99;
+// The meter shows -60..0 dBFS
+const METER_RANGE_DB = 60;
+
+const pickMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onGenerateVideo, onStateChange }) => {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
-  const [maxDuration, setMaxDuration] = useState<number | ''>(''); 
+  const [maxDuration, setMaxDuration] = useState<number | ''>('');
   const [lastBlob, setLastBlob] = useState<Blob | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [echoCancellation, setEchoCancellation] = useState(true);
+  const [noiseSuppression, setNoiseSuppression] = useState(true);
+  // Peak input level (0-1) and whether it has clipped since recording started
+  const [level, setLevel] = useState(0);
+  const [clipped, setClipped] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<BlobPart[]>([]);
   const timerRef = useRef<number | null>(null);
+  const meterRef = useRef<{ ctx: AudioContext, frame: number } | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  // Device labels are only filled in once microphone permission is granted,
+  // so the list is refreshed after each recording starts too
+  const refreshDevices = async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const all = await navigator.mediaDevices.enumerateDevices();
+    setDevices(all.filter(d => d.kind === 'audioinput'));
+  };
+
+  const stopMeter = () => {
+    if (!meterRef.current) return;
+    cancelAnimationFrame(meterRef.current.frame);
+    meterRef.current.ctx.close();
+    meterRef.current = null;
+    setLevel(0);
+  };
+
+  const startMeter = (stream: MediaStream) => {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx: AudioContext = new AudioContextClass();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    ctx.createMediaStreamSource(stream).connect(analyser);
+    const buffer = new Float32Array(analyser.fftSize);
+
+    const tick = () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let peak = 0;
+      for (let i = 0; i < buffer.length; i++) peak = Math.max(peak, Math.abs(buffer[i]));
+      setLevel(peak);
+      if (peak >= CLIP_LEVEL) setClipped(true);
+      if (meterRef.current) meterRef.current.frame = requestAnimationFrame(tick);
+    };
+    meterRef.current = { ctx, frame: requestAnimationFrame(tick) };
+  };
 
   useEffect(() => {
+    refreshDevices().catch(e => console.warn("Could not list microphones", e));
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
     return () => {
+      navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
       if (timerRef.current) clearInterval(timerRef.current);
+      stopMeter();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      onStateChange?.('idle');
     };
   }, []);
 
@@ -27,11 +94,33 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onGe
     }
   }, [recordingTime, isRecording, maxDuration]);
 
+  const startTimer = () => {
+    timerRef.current = window.setInterval(() => {
+      setRecordingTime(prev => prev + 1);
+    }, 1000);
+  };
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
   const startRecording = async () => {
     try {
       setLastBlob(null);
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorderRef.current = new MediaRecorder(stream);
+      setClipped(false);
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          echoCancellation,
+          noiseSuppression,
+        }
+      });
+      streamRef.current = stream;
+      const mimeType = pickMimeType();
+      mediaRecorderRef.current = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
       chunksRef.current = [];
 
       mediaRecorderRef.current.ondataavailable = (e) => {
@@ -41,22 +130,25 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onGe
       };
 
       mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        const blob = new Blob(chunksRef.current, { type: mediaRecorderRef.current?.mimeType || mimeType || 'audio/webm' });
         const url = URL.createObjectURL(blob);
         setLastBlob(blob);
         onRecordingComplete(url, blob);
-        
+
         // Stop all tracks
+        stopMeter();
         stream.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
       };
 
       mediaRecorderRef.current.start();
+      startMeter(stream);
       setIsRecording(true);
+      setIsPaused(false);
+      onStateChange?.('recording');
       setRecordingTime(0);
-      
-      timerRef.current = window.setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+      startTimer();
+      refreshDevices().catch(() => {});
 
     } catch (err) {
       console.error("Error accessing microphone:", err);
@@ -68,40 +160,96 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onGe
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+      setIsPaused(false);
+      onStateChange?.('idle');
+      stopTimer();
     }
   };
 
+  const togglePause = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || !isRecording) return;
+    if (isPaused) {
+      recorder.resume();
+      startTimer();
+    } else {
+      recorder.pause();
+      stopTimer();
+    }
+    setIsPaused(!isPaused);
+    onStateChange?.(isPaused ? 'recording' : 'paused');
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const levelDb = level > 0 ? 20 * Math.log10(level) : -Infinity;
+  const meterWidth = Math.max(0, Math.min(1, (levelDb + METER_RANGE_DB) / METER_RANGE_DB));
+
   return (
     <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-slate-700 rounded-2xl bg-slate-800/30 transition-all hover:border-slate-600">
       <div className="mb-6 text-center">
-         <div className={`text-4xl font-mono font-bold mb-2 transition-colors duration-300 ${isRecording ? 'text-red-500' : 'text-slate-400'}`}>
+         <div className={`text-4xl font-mono font-bold mb-2 transition-colors duration-300 ${isRecording && !isPaused ? 'text-red-500' : 'text-slate-400'}`}>
             {formatTime(recordingTime)}
          </div>
          <p className="text-sm text-slate-500 mb-2">
-           {isRecording ? 'Recording in progress...' : 'Ready to record'}
+           {isRecording ? (isPaused ? 'Paused' : 'Recording in progress...') : 'Ready to record'}
          </p>
-         
+
          {!isRecording && (
-           <div className="flex items-center justify-center gap-2">
-             <span className="text-xs text-slate-500">Max Duration (sec):</span>
-             <input 
-               type="number" 
-               min="1"
-               placeholder="Optional"
-               value={maxDuration}
-               onChange={(e) => setMaxDuration(e.target.value ? parseInt(e.target.value) : '')}
-               className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-center focus:ring-1 focus:ring-indigo-500 outline-none"
-             />
+           <div className="flex flex-col items-center gap-2">
+             <div className="flex items-center justify-center gap-2">
+               <span className="text-xs text-slate-500">Max Duration (sec):</span>
+               <input
+                 type="number"
+                 min="1"
+                 placeholder="Optional"
+                 value={maxDuration}
+                 onChange={(e) => setMaxDuration(e.target.value ? parseInt(e.target.value) : '')}
+                 className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-center focus:ring-1 focus:ring-indigo-500 outline-none"
+               />
+             </div>
+             <select
+               value={deviceId}
+               onChange={(e) => setDeviceId(e.target.value)}
+               className="max-w-[16rem] bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 outline-none"
+             >
+               <option value="">Default microphone</option>
+               {devices.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                 <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+               ))}
+             </select>
+             <div className="flex items-center gap-3">
+               <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                 <input type="checkbox" checked={echoCancellation} onChange={(e) => setEchoCancellation(e.target.checked)} className="accent-indigo-500" />
+                 Echo cancellation
+               </label>
+               <label className="flex items-center gap-1.5 text-xs text-slate-500">
+                 <input type="checkbox" checked={noiseSuppression} onChange={(e) => setNoiseSuppression(e.target.checked)} className="accent-indigo-500" />
+                 Noise suppression
+               </label>
+             </div>
+           </div>
+         )}
+
+         {isRecording && (
+           <div className="flex items-center justify-center gap-2 w-64 mx-auto">
+             <div className="flex-grow h-2 bg-slate-700 rounded-full overflow-hidden">
+               <div
+                 className={`h-full transition-[width] duration-75 ${levelDb > -6 ? 'bg-red-500' : levelDb > -18 ? 'bg-amber-400' : 'bg-emerald-500'}`}
+                 style={{ width: `${meterWidth * 100}%` }}
+               />
+             </div>
+             <button
+               onClick={() => setClipped(false)}
+               title={clipped ? 'Input clipped; lower the microphone gain. Click to reset.' : 'Lights up if the input clips'}
+               className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${clipped ? 'bg-red-600 text-white' : 'bg-slate-700 text-slate-500'}`}
+             >
+               CLIP
+             </button>
            </div>
          )}
       </div>
@@ -118,22 +266,40 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onGe
             </svg>
           </button>
         ) : (
-          <button
-            onClick={stopRecording}
-            className="group relative flex items-center justify-center w-16 h-16 rounded-full bg-slate-700 hover:bg-slate-600 transition-all shadow-lg hover:scale-105"
-            title="Stop Recording"
-          >
-            <div className="absolute inset-0 rounded-full border-4 border-red-500/30 animate-ping"></div>
-            <div className="relative w-6 h-6 bg-red-500 rounded-sm animate-pulse"></div>
-          </button>
+          <>
+            <button
+              onClick={togglePause}
+              className="flex items-center justify-center w-12 h-12 rounded-full bg-slate-700 hover:bg-slate-600 text-white transition-all"
+              title={isPaused ? 'Resume Recording' : 'Pause Recording'}
+            >
+              {isPaused ? (
+                <svg className="w-4 h-4 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M8 5v14l11-7z" />
+                </svg>
+              ) : (
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="4" width="4" height="16" rx="1" />
+                  <rect x="14" y="4" width="4" height="16" rx="1" />
+                </svg>
+              )}
+            </button>
+            <button
+              onClick={stopRecording}
+              className="group relative flex items-center justify-center w-16 h-16 rounded-full bg-slate-700 hover:bg-slate-600 transition-all shadow-lg hover:scale-105"
+              title="Stop Recording"
+            >
+              {!isPaused && <div className="absolute inset-0 rounded-full border-4 border-red-500/30 animate-ping"></div>}
+              <div className={`relative w-6 h-6 bg-red-500 rounded-sm ${isPaused ? '' : 'animate-pulse'}`}></div>
+            </button>
+          </>
         )}
       </div>
 
       <div className="mt-6 flex flex-col gap-2 items-center">
          <p className="text-slate-500 text-sm italic">
-          {isRecording ? 'Recording your voice...' : 'Tap microphone to start'}
+          {isRecording ? (isPaused ? 'Tap play to carry on' : 'Recording your voice...') : 'Tap microphone to start'}
         </p>
-        
+
         {lastBlob && !isRecording && onGenerateVideo && (
            <div className="mt-2 flex flex-col items-center gap-1">
              <button
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { BookChapter, BookChapterStatus } from '../types';
+
+interface AudiobookEditorProps {
+  title: string;
+  onTitleChange: (title: string) => void;
+  chapters: BookChapter[];
+  onChaptersChange: (chapters: BookChapter[]) => void;
+  onImport: (file: File) => void;
+  isImporting?: boolean;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<BookChapterStatus, string> = {
+  pending: 'bg-slate-700 text-slate-400',
+  running: 'bg-indigo-500/20 text-indigo-300 animate-pulse',
+  done: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+};
+
+export const createChapter = (title: string, text: string): BookChapter => ({
+  id: Date.now().toString() + Math.random().toString().slice(2, 8),
+  title,
+  text,
+  status: 'pending',
+});
+
+const AudiobookEditor: React.FC<AudiobookEditorProps> = ({
+  title,
+  onTitleChange,
+  chapters,
+  onChaptersChange,
+  onImport,
+  isImporting,
+  disabled
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Any edit invalidates the existing narration
+  const updateChapter = (id: string, patch: Partial<BookChapter>) => {
+    onChaptersChange(chapters.map(c => c.id === id
+      ? { ...c, ...patch, status: 'pending', resultId: undefined, error: undefined }
+      : c
+    ));
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= chapters.length) return;
+    const next = [...chapters];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChaptersChange(next);
+  };
+
+  const mergeWithPrevious = (index: number) => {
+    if (index === 0) return;
+    const previous = chapters[index - 1];
+    const merged: BookChapter = {
+      ...previous,
+      text: `${previous.text}\n\n${chapters[index].text}`,
+      status: 'pending',
+      resultId: undefined,
+      error: undefined,
+    };
+    onChaptersChange([...chapters.slice(0, index - 1), merged, ...chapters.slice(index + 1)]);
+  };
+
+  const remove = (id: string) => {
+    onChaptersChange(chapters.filter(c => c.id !== id));
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (file) onImport(file);
+  };
+
+  const totalWords = chapters.reduce((sum, c) => sum + c.text.split(/\s+/).filter(Boolean).length, 0);
+  const iconButton = "w-6 h-6 flex items-center justify-center rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-3">
+        <div className="flex-grow">
+          <label className="block text-sm font-medium text-slate-300 mb-2">Book Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => onTitleChange(e.target.value)}
+            disabled={disabled}
+            placeholder="Untitled Book"
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+          />
+        </div>
+        <input
+          type="file"
+          accept=".txt,.pdf,.md"
+          ref={fileInputRef}
+          className="hidden"
+          onChange={handleFile}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isImporting}
+          className="flex items-center gap-1.5 text-xs font-medium text-indigo-400 hover:text-indigo-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-indigo-500/10 px-2.5 py-2 rounded-lg border border-indigo-500/20 whitespace-nowrap"
+        >
+          {isImporting ? 'Reading...' : 'Import Document'}
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-slate-300">
+            Chapters <span className="text-xs text-slate-500 font-normal">· {chapters.length} chapters · {totalWords.toLocaleString()} words</span>
+          </label>
+          <button
+            onClick={() => onChaptersChange([...chapters, createChapter(`Chapter ${chapters.length + 1}`, '')])}
+            disabled={disabled}
+            className="text-xs text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+          >
+            + Add Chapter
+          </button>
+        </div>
+
+        {chapters.length === 0 ? (
+          <div className="rounded-xl border-2 border-dashed border-slate-800 p-6 text-center text-sm text-slate-500">
+            Import a document to detect its chapters, or add chapters by hand.
+          </div>
+        ) : (
+          <ol className="space-y-2 max-h-[28rem] overflow-y-auto pr-1">
+            {chapters.map((chapter, index) => (
+              <li key={chapter.id} className="bg-slate-900/50 rounded-lg border border-slate-800 p-2">
+                <div className="flex items-center gap-2">
+                  <span className="w-5 text-right font-mono text-xs text-slate-600">{index + 1}</span>
+                  <input
+                    type="text"
+                    value={chapter.title}
+                    onChange={(e) => updateChapter(chapter.id, { title: e.target.value })}
+                    disabled={disabled}
+                    className="flex-grow min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+                  />
+                  <span
+                    className={`px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wider flex-shrink-0 ${STATUS_STYLES[chapter.status]}`}
+                    title={chapter.error}
+                  >
+                    {chapter.status}
+                  </span>
+                  <button
+                    onClick={() => setExpandedId(expandedId === chapter.id ? null : chapter.id)}
+                    title="Edit text"
+                    className={iconButton}
+                  >
+                    {expandedId === chapter.id ? '▾' : '▸'}
+                  </button>
+                  <button onClick={() => move(index, -1)} disabled={disabled || index === 0} title="Move up" className={iconButton}>↑</button>
+                  <button onClick={() => move(index, 1)} disabled={disabled || index === chapters.length - 1} title="Move down" className={iconButton}>↓</button>
+                  <button onClick={() => mergeWithPrevious(index)} disabled={disabled || index === 0} title="Merge into previous chapter" className={iconButton}>⤒</button>
+                  <button onClick={() => remove(chapter.id)} disabled={disabled} title="Remove chapter" className={`${iconButton} hover:text-red-400`}>×</button>
+                </div>
+                {expandedId === chapter.id ? (
+                  <textarea
+                    value={chapter.text}
+                    onChange={(e) => updateChapter(chapter.id, { text: e.target.value })}
+                    disabled={disabled}
+                    className="mt-2 w-full min-h-[140px] bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs leading-relaxed focus:outline-none focus:ring-1 focus:ring-indigo-500 resize-y disabled:opacity-50"
+                  />
+                ) : (
+                  <p className="mt-1 ml-7 text-[11px] text-slate-500 truncate">
+                    {chapter.text.slice(0, 160) || <span className="italic">No text</span>}
+                  </p>
+                )}
+                {chapter.error && <p className="mt-1 ml-7 text-[11px] text-red-400/80">{chapter.error}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudiobookEditor;
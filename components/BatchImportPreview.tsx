@@ -0,0 +1,96 @@
+import React from 'react';
+import { BatchImportResult, BatchImportRow } from '../utils/batchImport';
+import { describeDeliveryStyle } from '../utils/text';
+
+interface BatchImportPreviewProps {
+  fileName: string;
+  result: BatchImportResult;
+  onRun: (rows: BatchImportRow[]) => void;
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+const BatchImportPreview: React.FC<BatchImportPreviewProps> = ({ fileName, result, onRun, onDiscard, disabled }) => {
+  const validRows = result.rows.filter(r => r.errors.length === 0);
+  const invalidCount = result.rows.length - validRows.length;
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-medium text-slate-200 truncate">{fileName}</div>
+          <div className="text-xs text-slate-500">
+            {result.rows.length} rows · <span className="text-green-400">{validRows.length} valid</span>
+            {invalidCount > 0 && <> · <span className="text-red-400">{invalidCount} with errors (skipped)</span></>}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onDiscard}
+            className="text-xs px-2.5 py-1 rounded-lg border border-slate-700 text-slate-400 hover:bg-slate-700 transition-colors"
+          >
+            Discard
+          </button>
+          <button
+            onClick={() => onRun(validRows)}
+            disabled={disabled || validRows.length === 0}
+            className="text-xs px-2.5 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Run {validRows.length} Rows
+          </button>
+        </div>
+      </div>
+
+      {result.ignoredColumns.length > 0 && (
+        <p className="text-xs text-amber-400/80">
+          Ignored columns: {result.ignoredColumns.join(', ')}
+        </p>
+      )}
+
+      <div className="max-h-72 overflow-auto rounded-lg border border-slate-800">
+        <table className="w-full text-xs text-left">
+          <thead className="bg-slate-800 text-slate-400 sticky top-0">
+            <tr>
+              <th className="px-2 py-1.5 font-medium">Row</th>
+              <th className="px-2 py-1.5 font-medium">Text</th>
+              <th className="px-2 py-1.5 font-medium">Voice</th>
+              <th className="px-2 py-1.5 font-medium">Language</th>
+              <th className="px-2 py-1.5 font-medium">Style</th>
+              <th className="px-2 py-1.5 font-medium">Filename</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {result.rows.map(row => {
+              const styleLabels = describeDeliveryStyle(row.style);
+              const instruction = row.style?.instruction.trim();
+              return (
+                <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-500/5' : ''}>
+                  <td className="px-2 py-1.5 font-mono text-slate-600 align-top">{row.row}</td>
+                  <td className="px-2 py-1.5 text-slate-300 align-top max-w-[16rem]">
+                    <div className="truncate" title={row.text}>{row.text || <span className="text-slate-600">—</span>}</div>
+                    {row.errors.map(error => (
+                      <div key={error} className="text-red-400/90">{error}</div>
+                    ))}
+                  </td>
+                  <td className="px-2 py-1.5 text-slate-400 align-top">{row.voice ?? <span className="text-slate-600">default</span>}</td>
+                  <td className="px-2 py-1.5 text-slate-400 align-top whitespace-nowrap">
+                    {row.language ?? <span className="text-slate-600">—</span>}
+                    {row.translate && <span className="ml-1 text-[10px] text-indigo-300">(translate)</span>}
+                  </td>
+                  <td className="px-2 py-1.5 text-slate-400 align-top" title={instruction || undefined}>
+                    {row.style
+                      ? [...styleLabels, instruction].filter(Boolean).join(', ') || 'Default'
+                      : <span className="text-slate-600">default</span>}
+                  </td>
+                  <td className="px-2 py-1.5 font-mono text-slate-400 align-top">{row.filename ?? <span className="text-slate-600">auto</span>}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchImportPreview;
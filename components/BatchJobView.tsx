@@ -0,0 +1,99 @@
+import React from 'react';
+import { BatchJob, BatchItemStatus } from '../types';
+
+interface BatchJobViewProps {
+  job: BatchJob;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'bg-slate-700 text-slate-400',
+  running: 'bg-indigo-500/20 text-indigo-300 animate-pulse',
+  done: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+};
+
+const STATE_LABELS: Record<BatchJob['state'], string> = {
+  running: 'Running',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+const BatchJobView: React.FC<BatchJobViewProps> = ({ job, onPause, onResume, onCancel, onRetryFailed, onDismiss }) => {
+  const counts = job.items.reduce((acc, item) => {
+    acc[item.status]++;
+    return acc;
+  }, { pending: 0, running: 0, done: 0, failed: 0 } as Record<BatchItemStatus, number>);
+  const finished = counts.done + counts.failed;
+  const percent = job.items.length > 0 ? Math.round((finished / job.items.length) * 100) : 0;
+  const isRunning = job.state === 'running';
+
+  const buttonClass = "text-xs px-2.5 py-1 rounded-lg border transition-colors";
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-medium text-slate-200">
+            Batch Job <span className="text-slate-500 font-normal">· {STATE_LABELS[job.state]}</span>
+          </div>
+          <div className="text-xs text-slate-500">
+            {counts.done} done · {counts.failed} failed · {counts.pending + counts.running} remaining · {job.voice} · ×{job.concurrency}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {isRunning && (
+            <button onClick={onPause} className={`${buttonClass} border-slate-700 text-slate-300 hover:bg-slate-700`}>
+              Pause
+            </button>
+          )}
+          {!isRunning && counts.pending > 0 && (
+            <button onClick={onResume} className={`${buttonClass} border-indigo-500/40 text-indigo-300 hover:bg-indigo-500/10`}>
+              Resume
+            </button>
+          )}
+          {!isRunning && counts.failed > 0 && (
+            <button onClick={onRetryFailed} className={`${buttonClass} border-amber-500/40 text-amber-300 hover:bg-amber-500/10`}>
+              Retry Failed
+            </button>
+          )}
+          {isRunning ? (
+            <button onClick={onCancel} className={`${buttonClass} border-red-500/30 text-red-400 hover:bg-red-500/10`}>
+              Cancel
+            </button>
+          ) : (
+            <button onClick={onDismiss} className={`${buttonClass} border-slate-700 text-slate-400 hover:bg-slate-700`}>
+              Dismiss
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="w-full bg-slate-700 rounded-full h-1.5 overflow-hidden">
+        <div className="bg-indigo-500 h-1.5 rounded-full transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+
+      <ol className="max-h-64 overflow-y-auto space-y-1 pr-1">
+        {job.items.map(item => (
+          <li key={item.index} className="flex items-start gap-2 text-xs" title={item.error}>
+            <span className="w-8 text-right font-mono text-slate-600 flex-shrink-0">{item.index + 1}</span>
+            <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wider flex-shrink-0 ${STATUS_STYLES[item.status]}`}>
+              {item.status}
+            </span>
+            <span className="text-slate-400 truncate">
+              {item.text}
+              {item.error && <span className="block text-red-400/80 truncate">{item.error}</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default BatchJobView;
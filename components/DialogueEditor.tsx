@@ -0,0 +1,63 @@
+import React from 'react';
+import { VoiceName } from '../types';
+import VoiceSelector from './VoiceSelector';
+
+interface DialogueEditorProps {
+  script: string;
+  onScriptChange: (script: string) => void;
+  speakers: string[];
+  speakerVoices: Record<string, VoiceName>;
+  onSpeakerVoiceChange: (speaker: string, voice: VoiceName) => void;
+  disabled?: boolean;
+}
+
+const DialogueEditor: React.FC<DialogueEditorProps> = ({
+  script,
+  onScriptChange,
+  speakers,
+  speakerVoices,
+  onSpeakerVoiceChange,
+  disabled
+}) => {
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-2">
+          Dialogue Script
+        </label>
+        <textarea
+          value={script}
+          onChange={(e) => onScriptChange(e.target.value)}
+          disabled={disabled}
+          placeholder={"Host: Welcome to the show!\nGuest: Thanks for having me."}
+          className="w-full min-h-[160px] bg-slate-900 border border-slate-700 rounded-xl p-4 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all resize-none placeholder:text-slate-600 disabled:opacity-50 font-mono text-sm leading-relaxed"
+        />
+        <p className="text-xs text-slate-500 mt-1">
+          Write one line per turn as <span className="font-mono text-slate-400">Name: line</span>.
+          {speakers.length > 2 && ' More than two speakers are synthesized line by line.'}
+        </p>
+      </div>
+
+      {speakers.length === 0 ? (
+        <div className="text-sm text-slate-500 italic text-center py-6 border border-dashed border-slate-700 rounded-xl">
+          Speakers will appear here once the script has lines.
+        </div>
+      ) : (
+        speakers.map(speaker => (
+          <div key={speaker}>
+            <label className="block text-sm font-medium text-slate-300 mb-3">
+              Voice for <span className="text-indigo-400">{speaker}</span>
+            </label>
+            <VoiceSelector
+              selectedVoice={speakerVoices[speaker]}
+              onSelect={(voice) => onSpeakerVoiceChange(speaker, voice)}
+              disabled={disabled}
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default DialogueEditor;
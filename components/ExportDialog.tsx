@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioResult, AudioExportOptions, AudioExportFormat, WavSampleFormat, TagSettings, ChannelMode } from '../types';
+import { DEFAULT_AUDIO_EXPORT_OPTIONS, DEFAULT_TAG_SETTINGS, EXPORT_SAMPLE_RATES, OPUS_BITRATES, LOUDNESS_TARGETS } from '../constants';
+import { decodeToPcm } from '../utils/audio';
+import { encodeAudioFile, downloadBlob } from '../utils/export';
+import { buildResultTags } from '../utils/id3';
+import { isAbortError } from '../services/scheduler';
+
+interface ExportDialogProps {
+  result: AudioResult;
+  // File name without extension
+  baseName: string;
+  tagSettings?: TagSettings;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<AudioExportFormat, string> = {
+  wav: 'WAV',
+  flac: 'FLAC (lossless)',
+  opus: 'Ogg/Opus',
+};
+
+const SAMPLE_FORMAT_LABELS: Record<WavSampleFormat, string> = {
+  pcm16: '16-bit',
+  pcm24: '24-bit',
+  float32: '32-bit float',
+};
+
+const opusSupported = typeof AudioEncoder !== 'undefined';
+
+const selectClass = "bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300 disabled:opacity-50";
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ result, baseName, tagSettings = DEFAULT_TAG_SETTINGS, onClose }) => {
+  const [options, setOptions] = useState<AudioExportOptions>({
+    ...DEFAULT_AUDIO_EXPORT_OPTIONS,
+    channels: result.channels === 2 ? 'stereo' : 'mono'
+  });
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const setFormat = (format: AudioExportFormat) => {
+    // FLAC has no float variant
+    const sampleFormat = format === 'flac' && options.sampleFormat === 'float32' ? 'pcm24' : options.sampleFormat;
+    setOptions({ ...options, format, sampleFormat });
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const channels = result.pcmData ? result.channels ?? 1 : options.channels === 'stereo' ? 2 : 1;
+      const pcmData = result.pcmData ?? await decodeToPcm(await fetch(result.blobUrl).then(r => r.blob()), 24000, channels);
+      const file = await encodeAudioFile(pcmData, 24000, options, {
+        tags: buildResultTags(result, tagSettings),
+        channels,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      downloadBlob(file.blob, `${baseName}.${file.extension}`);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error("Export failed", err);
+        setError(err.message || 'Export failed.');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isExporting = progress !== null;
+  const sampleFormats: WavSampleFormat[] = options.format === 'flac' ? ['pcm16', 'pcm24'] : ['pcm16', 'pcm24', 'float32'];
+
+  return (
+    <div className="mt-3 bg-slate-900/50 rounded-xl border border-slate-700 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-medium text-slate-200">Export Audio</div>
+        <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-300">Close</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={options.format}
+          onChange={(e) => setFormat(e.target.value as AudioExportFormat)}
+          disabled={isExporting}
+          className={selectClass}
+        >
+          {(Object.keys(FORMAT_LABELS) as AudioExportFormat[]).map(format => (
+            <option key={format} value={format} disabled={format === 'opus' && !opusSupported}>
+              {FORMAT_LABELS[format]}{format === 'opus' && !opusSupported ? ' (not supported)' : ''}
+            </option>
+          ))}
+        </select>
+
+        {options.format === 'opus' ? (
+          <>
+            <select
+              value={options.opusBitrate}
+              onChange={(e) => setOptions({ ...options, opusBitrate: Number(e.target.value) })}
+              disabled={isExporting}
+              className={selectClass}
+            >
+              {OPUS_BITRATES.map(b => <option key={b} value={b}>{b} kbps</option>)}
+            </select>
+            <span className="text-[10px] text-slate-500">48 kHz</span>
+          </>
+        ) : (
+          <>
+            <select
+              value={options.sampleRate}
+              onChange={(e) => setOptions({ ...options, sampleRate: Number(e.target.value) })}
+              disabled={isExporting}
+              className={selectClass}
+            >
+              {EXPORT_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz</option>)}
+            </select>
+            <select
+              value={options.sampleFormat}
+              onChange={(e) => setOptions({ ...options, sampleFormat: e.target.value as WavSampleFormat })}
+              disabled={isExporting}
+              className={selectClass}
+            >
+              {sampleFormats.map(f => <option key={f} value={f}>{SAMPLE_FORMAT_LABELS[f]}</option>)}
+            </select>
+          </>
+        )}
+
+        <select
+          value={options.channels}
+          onChange={(e) => setOptions({ ...options, channels: e.target.value as ChannelMode })}
+          disabled={isExporting}
+          className={selectClass}
+        >
+          <option value="mono">Mono</option>
+          <option value="stereo">Stereo</option>
+        </select>
+
+        <select
+          value={options.loudnessTarget ?? ''}
+          onChange={(e) => setOptions({ ...options, loudnessTarget: e.target.value === '' ? null : Number(e.target.value) })}
+          disabled={isExporting}
+          className={selectClass}
+        >
+          <option value="">Original levels</option>
+          {LOUDNESS_TARGETS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+        </select>
+
+        <button
+          onClick={isExporting ? () => abortRef.current?.abort() : handleExport}
+          className="ml-auto text-xs px-2.5 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium transition-colors"
+        >
+          {isExporting ? `Cancel (${Math.round(progress * 100)}%)` : 'Download'}
+        </button>
+      </div>
+
+      {error && <p className="text-[11px] text-red-400/80">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportDialog;
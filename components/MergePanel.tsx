@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AudioResult } from '../types';
+import { MergeOptions, MergeTransition, MergeSource, DEFAULT_MERGE_OPTIONS } from '../utils/merge';
+
+interface MergePanelProps {
+  results: AudioResult[];
+  onMerge: (items: MergeSource[], options: MergeOptions) => void;
+  onClose: () => void;
+  isMerging: boolean;
+}
+
+const defaultTitle = (result: AudioResult): string => {
+  if (result.filename) return result.filename;
+  const text = result.text.replace(/\s+/g, ' ').trim();
+  return text.length > 48 ? `${text.slice(0, 47)}…` : text || 'Untitled';
+};
+
+const MergePanel: React.FC<MergePanelProps> = ({ results, onMerge, onClose, isMerging }) => {
+  const [items, setItems] = useState<MergeSource[]>(() => results.map(result => ({ result, title: defaultTitle(result) })));
+  const [transition, setTransition] = useState<MergeTransition>(DEFAULT_MERGE_OPTIONS.transition);
+  const [seconds, setSeconds] = useState(DEFAULT_MERGE_OPTIONS.seconds);
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= items.length) return;
+    setItems(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const setTitle = (index: number, title: string) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, title } : item));
+  };
+
+  const iconButton = "w-6 h-6 flex items-center justify-center rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-slate-200">Merge {items.length} Clips</div>
+        <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-300">Close</button>
+      </div>
+
+      <ol className="space-y-1.5 max-h-64 overflow-y-auto pr-1">
+        {items.map((item, index) => (
+          <li key={item.result.id} className="flex items-center gap-2">
+            <span className="w-5 text-right font-mono text-xs text-slate-600">{index + 1}</span>
+            <input
+              type="text"
+              value={item.title}
+              onChange={(e) => setTitle(index, e.target.value)}
+              placeholder="Chapter title"
+              className="flex-grow min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            />
+            <span className="text-[10px] uppercase tracking-wider text-slate-500 w-16 truncate">{item.result.type}</span>
+            <button onClick={() => move(index, -1)} disabled={index === 0} title="Move up" className={iconButton}>↑</button>
+            <button onClick={() => move(index, 1)} disabled={index === items.length - 1} title="Move down" className={iconButton}>↓</button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={transition}
+          onChange={(e) => setTransition(e.target.value as MergeTransition)}
+          className="bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+        >
+          <option value="gap">Silence gap</option>
+          <option value="crossfade">Crossfade</option>
+        </select>
+        <input
+          type="number"
+          min="0"
+          max="10"
+          step="0.1"
+          value={seconds}
+          onChange={(e) => setSeconds(Math.min(10, Math.max(0, parseFloat(e.target.value) || 0)))}
+          className="w-16 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+        />
+        <span className="text-xs text-slate-500">seconds</span>
+        <button
+          onClick={() => onMerge(items.map(item => ({ ...item, title: item.title.trim() || defaultTitle(item.result) })), { transition, seconds })}
+          disabled={isMerging || items.length < 2}
+          className="ml-auto text-xs px-2.5 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isMerging ? 'Merging...' : 'Merge'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MergePanel;
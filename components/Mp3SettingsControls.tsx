@@ -0,0 +1,67 @@
+import React from 'react';
+import { Mp3Settings, ChannelMode } from '../types';
+import { MP3_BITRATES, MP3_SAMPLE_RATES } from '../constants';
+import { maxMp3Bitrate } from '../utils/mp3';
+
+interface Mp3SettingsControlsProps {
+  settings: Mp3Settings;
+  onChange: (settings: Mp3Settings) => void;
+  disabled?: boolean;
+}
+
+const selectClass = "bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300 disabled:opacity-50";
+
+const Mp3SettingsControls: React.FC<Mp3SettingsControlsProps> = ({ settings, onChange, disabled }) => {
+  const maxBitrate = maxMp3Bitrate(settings.sampleRate);
+
+  // Lower sample rates cap the bitrate, so clamp it along with the rate
+  const setSampleRate = (sampleRate: number) => {
+    onChange({ ...settings, sampleRate, bitrate: Math.min(settings.bitrate, maxMp3Bitrate(sampleRate)) });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-xs text-slate-500 font-bold uppercase tracking-wider">MP3:</label>
+      <select
+        value={settings.bitrate}
+        onChange={(e) => onChange({ ...settings, bitrate: Number(e.target.value) })}
+        disabled={disabled}
+        title="Constant bitrate"
+        className={selectClass}
+      >
+        {MP3_BITRATES.filter(b => b <= maxBitrate).map(b => (
+          <option key={b} value={b}>{b} kbps</option>
+        ))}
+      </select>
+      <select
+        value={settings.channels}
+        onChange={(e) => onChange({ ...settings, channels: e.target.value as ChannelMode })}
+        disabled={disabled}
+        title="Channels"
+        className={selectClass}
+      >
+        <option value="mono">Mono</option>
+        <option value="stereo">Stereo</option>
+      </select>
+      <select
+        value={settings.sampleRate}
+        onChange={(e) => setSampleRate(Number(e.target.value))}
+        disabled={disabled}
+        title="Output sample rate"
+        className={selectClass}
+      >
+        {MP3_SAMPLE_RATES.map(rate => (
+          <option key={rate} value={rate}>{(rate / 1000).toString()} kHz</option>
+        ))}
+      </select>
+      <span
+        className="text-[10px] text-slate-500 cursor-help"
+        title="The in-browser MP3 encoder (lamejs) only writes constant bitrate; it has no VBR mode or quality setting"
+      >
+        CBR only
+      </span>
+    </div>
+  );
+};
+
+export default Mp3SettingsControls;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { MusicMixSettings, FadeCurve } from '../types';
+
+interface MusicMixControlsProps {
+  settings: MusicMixSettings;
+  onChange: (settings: MusicMixSettings) => void;
+  disabled?: boolean;
+}
+
+const FADE_CURVE_LABELS: Record<FadeCurve, string> = {
+  'linear': 'Linear',
+  'equal-power': 'Equal power',
+  'exponential': 'Exponential',
+};
+
+const inputClass = "w-16 bg-slate-800 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300 disabled:opacity-50";
+
+const SecondsInput = ({ label, value, max, onChange, disabled }: {
+  label: string;
+  value: number;
+  max: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-xs text-slate-500">{label}</span>
+    <input
+      type="number"
+      min={0}
+      max={max}
+      step={0.5}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Math.min(max, Number(e.target.value) || 0)))}
+      disabled={disabled}
+      className={inputClass}
+    />
+  </label>
+);
+
+const MusicMixControls: React.FC<MusicMixControlsProps> = ({ settings, onChange, disabled }) => {
+  const set = <K extends keyof MusicMixSettings>(key: K, value: MusicMixSettings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 mt-3 pt-3 border-t border-slate-800">
+      <div className="flex flex-col gap-1">
+        <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.ducking}
+            onChange={(e) => set('ducking', e.target.checked)}
+            disabled={disabled}
+            className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-900 accent-indigo-500"
+          />
+          Duck under speech
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            type="range"
+            min="3" max="24" step="1"
+            value={settings.duckDepth}
+            onChange={(e) => set('duckDepth', Number(e.target.value))}
+            disabled={disabled || !settings.ducking}
+            title="How far the music dips while the voice is speaking"
+            className="w-24 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-indigo-400"
+          />
+          <span className="text-xs text-slate-500 w-10">-{settings.duckDepth} dB</span>
+        </div>
+      </div>
+      <SecondsInput label="Intro (s)" value={settings.intro} max={30} onChange={(v) => set('intro', v)} disabled={disabled} />
+      <SecondsInput label="Outro (s)" value={settings.outro} max={30} onChange={(v) => set('outro', v)} disabled={disabled} />
+      <SecondsInput label="Fade in (s)" value={settings.fadeIn} max={30} onChange={(v) => set('fadeIn', v)} disabled={disabled} />
+      <SecondsInput label="Fade out (s)" value={settings.fadeOut} max={30} onChange={(v) => set('fadeOut', v)} disabled={disabled} />
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-slate-500">Curve</span>
+        <select
+          value={settings.fadeCurve}
+          onChange={(e) => set('fadeCurve', e.target.value as FadeCurve)}
+          disabled={disabled}
+          className="bg-slate-800 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300 disabled:opacity-50"
+        >
+          {(Object.keys(FADE_CURVE_LABELS) as FadeCurve[]).map(curve => (
+            <option key={curve} value={curve}>{FADE_CURVE_LABELS[curve]}</option>
+          ))}
+        </select>
+      </label>
+      <SecondsInput label="Music starts at (s)" value={settings.musicOffset} max={600} onChange={(v) => set('musicOffset', v)} disabled={disabled} />
+    </div>
+  );
+};
+
+export default MusicMixControls;
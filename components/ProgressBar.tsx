@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface ProgressBarProps {
+  // 0-100; 0 shows an indeterminate shimmer
+  progress: number;
+  onCancel?: () => void;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ progress, onCancel }) => {
+  return (
+    <div className="flex items-center gap-3 mt-2">
+      <div className="flex-grow bg-slate-700 rounded-full h-1.5 overflow-hidden">
+        <div 
+          className="bg-indigo-500 h-1.5 rounded-full transition-all duration-300 ease-out relative overflow-hidden" 
+          style={{ width: `${progress > 0 ? progress : 100}%` }}
+        >
+           {/* Animated Shimmer for indeterminate state */}
+           {progress === 0 && (
+              <div className="absolute inset-0 bg-white/20 animate-[shimmer_1s_infinite] skew-x-12"></div>
+           )}
+        </div>
+      </div>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="text-xs text-slate-400 hover:text-red-400 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProgressBar;
@@ -0,0 +1,222 @@
+import React, { useRef, useState } from 'react';
+import { ProviderSettings, SpeechProviderId, TextProviderId, CaptionSettings, SentenceTiming, TagSettings, SilenceSettings } from '../types';
+import { MAX_COVER_IMAGE_BYTES } from '../constants';
+import { SPEECH_PROVIDERS, TEXT_PROVIDERS } from '../services/providers';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  captionSettings: CaptionSettings;
+  onCaptionChange: (settings: CaptionSettings) => void;
+  tagSettings: TagSettings;
+  onTagChange: (settings: TagSettings) => void;
+  silenceSettings: SilenceSettings;
+  onSilenceChange: (settings: SilenceSettings) => void;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, captionSettings, onCaptionChange, tagSettings, onTagChange, silenceSettings, onSilenceChange, onClose }) => {
+  const coverInputRef = useRef<HTMLInputElement>(null);
+  const [coverError, setCoverError] = useState<string | null>(null);
+
+  const setCaptionNumber = (key: 'maxCharsPerCue' | 'lineLength', value: string) => {
+    const parsed = parseInt(value);
+    if (!isNaN(parsed)) onCaptionChange({ ...captionSettings, [key]: Math.min(200, Math.max(10, parsed)) });
+  };
+
+  const setSilenceSeconds = (key: 'padding' | 'maxPause' | 'splitPause', value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) onSilenceChange({ ...silenceSettings, [key]: Math.min(10, Math.max(0, parsed)) });
+  };
+
+  const handleCoverSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (coverInputRef.current) coverInputRef.current.value = '';
+    if (!file) return;
+    if (!/^image\/(jpeg|png)$/.test(file.type)) {
+      setCoverError('Use a JPEG or PNG image.');
+      return;
+    }
+    if (file.size > MAX_COVER_IMAGE_BYTES) {
+      setCoverError(`Image must be under ${Math.round(MAX_COVER_IMAGE_BYTES / 1024)} KB.`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      setCoverError(null);
+      onTagChange({ ...tagSettings, coverImage: reader.result as string });
+    };
+    reader.onerror = () => setCoverError('Could not read the image.');
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-72 bg-slate-800 border border-slate-700 rounded-xl shadow-xl p-4 space-y-4 z-50">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-200">Settings</h3>
+        <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-300">Close</button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-xs text-slate-500">Speech engine</label>
+        <select
+          value={settings.speech}
+          onChange={(e) => onChange({ ...settings, speech: e.target.value as SpeechProviderId })}
+          className="bg-slate-900 border border-slate-700 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+        >
+          {Object.values(SPEECH_PROVIDERS).map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+        {settings.speech === 'browser' && (
+          <p className="text-[10px] text-amber-400/80">
+            Browser voices play aloud only; no clips are saved to history.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-xs text-slate-500">Text engine (writer, translate, transcribe)</label>
+        <select
+          value={settings.text}
+          onChange={(e) => onChange({ ...settings, text: e.target.value as TextProviderId })}
+          className="bg-slate-900 border border-slate-700 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+        >
+          {Object.values(TEXT_PROVIDERS).map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-xs text-slate-500">Caption timing (SRT/VTT)</label>
+        <select
+          value={captionSettings.timing}
+          onChange={(e) => onCaptionChange({ ...captionSettings, timing: e.target.value as SentenceTiming })}
+          className="bg-slate-900 border border-slate-700 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+        >
+          <option value="estimated">Estimated (fewer requests)</option>
+          <option value="per-sentence">Exact (one request per sentence)</option>
+        </select>
+        <div className="flex items-center gap-2 mt-1">
+          <label className="text-[10px] text-slate-500">Chars/cue</label>
+          <input
+            type="number"
+            min="10"
+            max="200"
+            value={captionSettings.maxCharsPerCue}
+            onChange={(e) => setCaptionNumber('maxCharsPerCue', e.target.value)}
+            className="w-14 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+          />
+          <label className="text-[10px] text-slate-500">Chars/line</label>
+          <input
+            type="number"
+            min="10"
+            max="200"
+            value={captionSettings.lineLength}
+            onChange={(e) => setCaptionNumber('lineLength', e.target.value)}
+            className="w-14 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-xs text-slate-500">Silence trimming</label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={silenceSettings.trimRecordings}
+            onChange={(e) => onSilenceChange({ ...silenceSettings, trimRecordings: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          Trim dead air from new recordings
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={silenceSettings.trimSpeech}
+            onChange={(e) => onSilenceChange({ ...silenceSettings, trimSpeech: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          Trim leading/trailing silence from generated speech
+        </label>
+        <div className="flex items-center gap-2 mt-1">
+          <label className="text-[10px] text-slate-500">Padding (s)</label>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.05"
+            value={silenceSettings.padding}
+            onChange={(e) => setSilenceSeconds('padding', e.target.value)}
+            className="w-14 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+          />
+          <label className="text-[10px] text-slate-500">Max pause (s)</label>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.05"
+            value={silenceSettings.maxPause}
+            onChange={(e) => setSilenceSeconds('maxPause', e.target.value)}
+            className="w-14 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+          />
+          <label className="text-[10px] text-slate-500">Split at (s)</label>
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="0.1"
+            value={silenceSettings.splitPause}
+            onChange={(e) => setSilenceSeconds('splitPause', e.target.value)}
+            className="w-14 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label className="text-xs text-slate-500">MP3 tags (album / project)</label>
+        <input
+          type="text"
+          value={tagSettings.album}
+          onChange={(e) => onTagChange({ ...tagSettings, album: e.target.value })}
+          placeholder="Album or project name"
+          className="bg-slate-900 border border-slate-700 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+        />
+        <div className="flex items-center gap-2 mt-1">
+          {tagSettings.coverImage && (
+            <img src={tagSettings.coverImage} alt="Cover art" className="w-8 h-8 rounded object-cover border border-slate-700" />
+          )}
+          <input
+            type="file"
+            accept="image/jpeg,image/png"
+            ref={coverInputRef}
+            className="hidden"
+            onChange={handleCoverSelect}
+          />
+          <button
+            onClick={() => coverInputRef.current?.click()}
+            className="text-xs text-indigo-400 hover:text-indigo-300"
+          >
+            {tagSettings.coverImage ? 'Change cover' : 'Add cover image'}
+          </button>
+          {tagSettings.coverImage && (
+            <button
+              onClick={() => onTagChange({ ...tagSettings, coverImage: undefined })}
+              className="text-xs text-slate-500 hover:text-red-400"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+        {coverError && <p className="text-[10px] text-red-400/80">{coverError}</p>}
+      </div>
+
+      <p className="text-[10px] text-slate-500">
+        Video generation always uses Veo and requires a paid API key.
+      </p>
+    </div>
+  );
+};
+
+export default SettingsPanel;
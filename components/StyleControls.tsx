@@ -0,0 +1,75 @@
+import React from 'react';
+import { DeliveryStyle } from '../types';
+import { SPEAKING_RATES, EMOTIONS, VOCAL_INTENSITIES, STYLE_INSTRUCTION_MAX_LENGTH, StyleOption } from '../constants';
+
+interface StyleControlsProps {
+  style: DeliveryStyle;
+  onChange: (style: DeliveryStyle) => void;
+  disabled?: boolean;
+}
+
+const OptionSelect = <T extends string>({ label, value, options, onChange, disabled }: {
+  label: string;
+  value: T;
+  options: StyleOption<T>[];
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) => (
+  <div className="flex flex-col gap-1">
+    <span className="text-xs text-slate-500">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as T)}
+      disabled={disabled}
+      className="bg-slate-800 border border-slate-700 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300 disabled:opacity-50"
+    >
+      {options.map(o => (
+        <option key={o.id} value={o.id}>{o.label}</option>
+      ))}
+    </select>
+  </div>
+);
+
+const StyleControls: React.FC<StyleControlsProps> = ({ style, onChange, disabled }) => {
+  return (
+    <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800">
+      <label className="block text-sm font-medium text-slate-300 mb-2">
+        Delivery Style
+      </label>
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        <OptionSelect
+          label="Pace"
+          value={style.rate}
+          options={SPEAKING_RATES}
+          onChange={(rate) => onChange({ ...style, rate })}
+          disabled={disabled}
+        />
+        <OptionSelect
+          label="Emotion"
+          value={style.emotion}
+          options={EMOTIONS}
+          onChange={(emotion) => onChange({ ...style, emotion })}
+          disabled={disabled}
+        />
+        <OptionSelect
+          label="Volume"
+          value={style.intensity}
+          options={VOCAL_INTENSITIES}
+          onChange={(intensity) => onChange({ ...style, intensity })}
+          disabled={disabled}
+        />
+      </div>
+      <input
+        type="text"
+        placeholder="Style instruction (e.g. like a late-night radio host)"
+        value={style.instruction}
+        maxLength={STYLE_INSTRUCTION_MAX_LENGTH}
+        onChange={(e) => onChange({ ...style, instruction: e.target.value })}
+        disabled={disabled}
+        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:ring-1 focus:ring-indigo-500 outline-none placeholder:text-slate-600 disabled:opacity-50"
+      />
+    </div>
+  );
+};
+
+export default StyleControls;
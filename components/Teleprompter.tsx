@@ -0,0 +1,137 @@
+import React, { useEffect, useRef } from 'react';
+import { AudioResult, TeleprompterSettings } from '../types';
+import { getPcmDuration } from '../utils/audio';
+import { RecorderState } from './AudioRecorder';
+
+interface TeleprompterProps {
+  text: string;
+  settings: TeleprompterSettings;
+  onChange: (settings: TeleprompterSettings) => void;
+  // Clips the scroll speed can be matched to
+  references: AudioResult[];
+  recorderState: RecorderState;
+}
+
+// Where the reading line sits, as a fraction of the window height
+const READING_LINE = 0.3;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * How long the script should take to read: how long the reference clip speaks
+ * for, or the word count at the chosen words-per-minute. The speech span comes
+ * from the clip's sentence timings, so a music intro or outro isn't counted.
+ */
+const scriptDuration = (text: string, settings: TeleprompterSettings, references: AudioResult[]): number => {
+  const reference = settings.pace === 'reference' ? references.find(r => r.id === settings.referenceId) : undefined;
+  const segments = reference?.segments;
+  if (segments && segments.length > 0) return segments[segments.length - 1].end - segments[0].start;
+  if (reference?.pcmData) return getPcmDuration(reference.pcmData, 24000, reference.channels);
+  return (countWords(text) / Math.max(1, settings.wordsPerMinute)) * 60;
+};
+
+const Teleprompter: React.FC<TeleprompterProps> = ({ text, settings, onChange, references, recorderState }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const elapsedRef = useRef(0);
+  const duration = scriptDuration(text, settings, references);
+
+  // Scroll in step with the recording: restart on a new take, hold while paused
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    if (recorderState === 'idle') {
+      elapsedRef.current = 0;
+      scroller.scrollTop = 0;
+      return;
+    }
+    if (recorderState === 'paused') return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      elapsedRef.current += (now - last) / 1000;
+      last = now;
+      const progress = duration > 0 ? Math.min(1, elapsedRef.current / duration) : 1;
+      scroller.scrollTop = progress * (scroller.scrollHeight - scroller.clientHeight);
+      if (progress < 1) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [recorderState, duration]);
+
+  const isRecording = recorderState !== 'idle';
+  const selectClass = "bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300 disabled:opacity-50";
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-slate-500">Pace:</span>
+        <select
+          value={settings.pace}
+          onChange={(e) => {
+            const pace = e.target.value as TeleprompterSettings['pace'];
+            // Default to the newest clip generated from this same script
+            const referenceId = settings.referenceId && references.some(r => r.id === settings.referenceId)
+              ? settings.referenceId
+              : (references.find(r => r.text.trim() === text.trim()) ?? references[0])?.id;
+            onChange({ ...settings, pace, referenceId });
+          }}
+          disabled={isRecording}
+          className={selectClass}
+        >
+          <option value="wpm">Words per minute</option>
+          <option value="reference" disabled={references.length === 0}>Match a generated clip</option>
+        </select>
+        {settings.pace === 'wpm' ? (
+          <input
+            type="number"
+            min="60"
+            max="300"
+            step="5"
+            value={settings.wordsPerMinute}
+            onChange={(e) => onChange({ ...settings, wordsPerMinute: Math.min(300, Math.max(60, parseInt(e.target.value) || 150)) })}
+            disabled={isRecording}
+            className="w-16 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300 disabled:opacity-50"
+          />
+        ) : (
+          <select
+            value={settings.referenceId ?? ''}
+            onChange={(e) => onChange({ ...settings, referenceId: e.target.value || undefined })}
+            disabled={isRecording}
+            className={`${selectClass} max-w-[14rem]`}
+          >
+            <option value="" disabled>Select a clip...</option>
+            {references.map(r => (
+              <option key={r.id} value={r.id}>
+                {r.voice}: {r.text.slice(0, 40)}{r.text.length > 40 ? '…' : ''}
+              </option>
+            ))}
+          </select>
+        )}
+        <span className="text-[10px] text-slate-500 ml-auto">
+          {countWords(text)} words · {Math.floor(duration / 60)}:{Math.round(duration % 60).toString().padStart(2, '0')}
+        </span>
+      </div>
+
+      <div className="relative">
+        <div
+          ref={scrollRef}
+          className="h-48 overflow-hidden bg-slate-950/70 rounded-xl border border-slate-700 px-6"
+        >
+          {/* Padding lets the first and last lines reach the reading line */}
+          <div style={{ paddingTop: `${READING_LINE * 12}rem`, paddingBottom: `${(1 - READING_LINE) * 12}rem` }}>
+            <p className="text-2xl leading-relaxed text-slate-200 whitespace-pre-wrap">
+              {text.trim() || 'Type a script in the Text to Speech tab to read it here.'}
+            </p>
+          </div>
+        </div>
+        <div
+          className="absolute left-0 right-0 border-t border-indigo-500/50 pointer-events-none"
+          style={{ top: `${READING_LINE * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Teleprompter;
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef } from 'react';
+import { Transcript, TranscriptFormat, CaptionSettings } from '../types';
+import { formatTranscript, TRANSCRIPT_MIME_TYPES } from '../utils/transcript';
+import { downloadBlob } from '../utils/export';
+
+interface TranscriptViewProps {
+  transcript: Transcript;
+  // Playback position, in seconds
+  currentTime: number;
+  onSeek: (time: number) => void;
+  // Download name without extension
+  baseName: string;
+  // Cue length and wrapping for SRT/VTT downloads
+  captionSettings: CaptionSettings;
+}
+
+const FORMATS: TranscriptFormat[] = ['txt', 'srt', 'vtt', 'json'];
+
+// Colours cycled through for speaker labels, in order of first appearance
+const SPEAKER_COLORS = ['text-indigo-300', 'text-emerald-300', 'text-amber-300', 'text-pink-300', 'text-sky-300'];
+
+const formatTime = (time: number) => `${Math.floor(time / 60)}:${Math.floor(time % 60).toString().padStart(2, '0')}`;
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript, currentTime, onSeek, baseName, captionSettings }) => {
+  const listRef = useRef<HTMLOListElement>(null);
+  const speakers = Array.from(new Set(transcript.segments.map(s => s.speaker).filter(Boolean))) as string[];
+  // The last segment that has started, so gaps between lines keep the previous one lit
+  let activeIndex = -1;
+  transcript.segments.forEach((segment, i) => {
+    if (segment.start <= currentTime) activeIndex = i;
+  });
+
+  // Keep the current line in view without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    const item = list?.children[activeIndex] as HTMLElement | undefined;
+    if (!list || !item) return;
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = item.offsetTop - list.clientHeight / 3;
+    }
+  }, [activeIndex]);
+
+  const download = (format: TranscriptFormat) => {
+    const content = formatTranscript(transcript, format, captionSettings);
+    downloadBlob(new Blob([content], { type: TRANSCRIPT_MIME_TYPES[format] }), `${baseName}.transcript.${format}`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Transcript</span>
+        {transcript.language && <span className="text-[10px] text-slate-500">{transcript.language}</span>}
+        {speakers.length > 1 && <span className="text-[10px] text-slate-500">· {speakers.length} speakers</span>}
+        <div className="flex gap-1 ml-auto">
+          {FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => download(format)}
+              disabled={transcript.segments.length === 0}
+              title={`Download the transcript as ${format.toUpperCase()}`}
+              className="text-[10px] px-2 py-0.5 rounded border border-slate-700 text-slate-400 hover:bg-slate-700 hover:text-white disabled:opacity-50 transition-colors"
+            >
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {transcript.segments.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">No speech was found in this clip.</p>
+      ) : (
+        <ol ref={listRef} className="relative max-h-48 overflow-y-auto space-y-0.5 pr-1">
+          {transcript.segments.map((segment, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onSeek(segment.start)}
+                className={`flex items-baseline gap-2 text-xs text-left w-full rounded px-1 py-0.5 hover:bg-slate-700/50 ${i === activeIndex ? 'bg-indigo-500/10 text-slate-100' : 'text-slate-400'}`}
+              >
+                <span className="font-mono text-[10px] text-slate-500 flex-shrink-0">{formatTime(segment.start)}</span>
+                <span>
+                  {segment.speaker && speakers.length > 1 && (
+                    <span className={`font-medium mr-1 ${SPEAKER_COLORS[speakers.indexOf(segment.speaker) % SPEAKER_COLORS.length]}`}>
+                      {segment.speaker}:
+                    </span>
+                  )}
+                  {segment.text}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptView;
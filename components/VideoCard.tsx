@@ -3,9 +3,10 @@ import { VideoResult } from '../types';
 
 interface VideoCardProps {
   result: VideoResult;
+  onDelete?: (id: string) => void;
 }
 
-const VideoCard: React.FC<VideoCardProps> = ({ result }) => {
+const VideoCard: React.FC<VideoCardProps> = ({ result, onDelete }) => {
   return (
     <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-sm transition-all hover:border-slate-600">
       <div className="p-5">
@@ -37,7 +38,18 @@ const VideoCard: React.FC<VideoCardProps> = ({ result }) => {
            />
         </div>
 
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          {onDelete && (
+            <button
+              onClick={() => onDelete(result.id)}
+              title="Delete"
+              className="mr-auto flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+            </button>
+          )}
           <a
             href={result.videoUrl}
             download={`gemini-video-${result.id}.mp4`}
@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioResult, SilenceSettings } from '../types';
+import { decodeToPcm, getPcmDuration } from '../utils/audio';
+import { computeWaveform, editResult, splitResult, planSilenceEdits, planSplits, AudioEdit, SilenceEditOptions } from '../utils/edit';
+
+interface WaveformEditorProps {
+  result: AudioResult;
+  // Playback position, in seconds
+  currentTime: number;
+  onSeek: (time: number) => void;
+  // Receives the new result each edit produces; the original is left alone
+  onEdit: (result: AudioResult) => void;
+  // Receives all the parts of a split, in order; without it each goes to onEdit
+  onSplit?: (parts: AudioResult[]) => void;
+  silenceSettings: SilenceSettings;
+}
+
+interface Selection {
+  start: number;
+  end: number;
+}
+
+// Drags shorter than this are treated as a click to seek
+const MIN_SELECTION_SECONDS = 0.05;
+const CANVAS_HEIGHT = 64;
+
+const formatSeconds = (time: number) => `${Math.floor(time / 60)}:${(time % 60).toFixed(2).padStart(5, '0')}`;
+
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ result, currentTime, onSeek, onEdit, onSplit, silenceSettings }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [audio, setAudio] = useState<{ pcmData: Uint8Array, channels: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [width, setWidth] = useState(0);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [silenceSeconds, setSilenceSeconds] = useState(0.5);
+  const dragStartRef = useRef<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Some recordings have no raw PCM, so decode them once
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    if (result.pcmData) {
+      setAudio({ pcmData: result.pcmData, channels: result.channels ?? 1 });
+      return;
+    }
+    fetch(result.blobUrl)
+      .then(r => r.blob())
+      .then(blob => decodeToPcm(blob))
+      .then(pcmData => { if (!cancelled) setAudio({ pcmData, channels: 1 }); })
+      .catch(e => {
+        console.error("Could not decode audio for editing", e);
+        if (!cancelled) setLoadError("This clip couldn't be decoded for editing.");
+      });
+    return () => { cancelled = true; };
+  }, [result.pcmData, result.blobUrl, result.channels]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const duration = audio ? getPcmDuration(audio.pcmData, 24000, audio.channels) : 0;
+  const peaks = useMemo(
+    () => audio && width > 0 ? computeWaveform(audio.pcmData, audio.channels, width) : null,
+    [audio, width]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || width === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = CANVAS_HEIGHT * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, CANVAS_HEIGHT);
+
+    const toX = (time: number) => (time / duration) * width;
+    if (selection) {
+      ctx.fillStyle = 'rgba(99, 102, 241, 0.25)';
+      ctx.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), CANVAS_HEIGHT);
+    }
+
+    const mid = CANVAS_HEIGHT / 2;
+    ctx.fillStyle = '#64748b';
+    for (let x = 0; x < width; x++) {
+      const top = mid - peaks.max[x] * mid;
+      const bottom = mid - peaks.min[x] * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    ctx.fillStyle = '#818cf8';
+    ctx.fillRect(Math.min(width - 1, toX(currentTime)), 0, 1, CANVAS_HEIGHT);
+  }, [peaks, width, duration, selection, currentTime]);
+
+  const timeAt = (e: React.MouseEvent<HTMLCanvasElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((e.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!audio) return;
+    dragStartRef.current = timeAt(e);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    if (start === null) return;
+    const time = timeAt(e);
+    setSelection({ start: Math.min(start, time), end: Math.max(start, time) });
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    if (start === null) return;
+    dragStartRef.current = null;
+    const time = timeAt(e);
+    if (Math.abs(time - start) < MIN_SELECTION_SECONDS) {
+      setSelection(null);
+      onSeek(time);
+    } else {
+      setSelection({ start: Math.min(start, time), end: Math.max(start, time) });
+    }
+  };
+
+  const apply = (edit: AudioEdit | AudioEdit[]) => {
+    if (!audio) return;
+    onEdit(editResult(result, audio.pcmData, edit, audio.channels));
+    setSelection(null);
+    setNotice(null);
+  };
+
+  const applySilenceEdits = (options: SilenceEditOptions) => {
+    if (!audio) return;
+    const edits = planSilenceEdits(audio.pcmData, audio.channels, options);
+    if (edits.length === 0) {
+      setNotice('Nothing to remove.');
+      return;
+    }
+    apply(edits);
+  };
+
+  const handleSplit = () => {
+    if (!audio) return;
+    const parts = planSplits(audio.pcmData, audio.channels, silenceSettings.splitPause, silenceSettings.padding);
+    if (parts.length < 2) {
+      setNotice(`No pauses of ${silenceSettings.splitPause}s or longer to split at.`);
+      return;
+    }
+    const split = splitResult(result, audio.pcmData, parts, audio.channels);
+    if (onSplit) {
+      onSplit(split);
+      setNotice(`Split into ${split.length} parts; they're selected in history, ready to transcribe.`);
+    } else {
+      // History is newest first, so add the last part first to keep them in order
+      split.reverse().forEach(onEdit);
+      setNotice(null);
+    }
+  };
+
+  const buttonClass = "text-xs px-2.5 py-1 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={(e) => dragStartRef.current !== null && handleMouseUp(e)}
+        style={{ height: CANVAS_HEIGHT }}
+        className="w-full bg-slate-950/60 rounded cursor-crosshair"
+      />
+      {loadError && <p className="text-[11px] text-red-400/80">{loadError}</p>}
+      {!audio && !loadError && <p className="text-[11px] text-slate-500">Loading waveform...</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-mono text-slate-500">
+          {selection
+            ? `${formatSeconds(selection.start)} – ${formatSeconds(selection.end)}`
+            : 'Drag to select a region'}
+        </span>
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <button
+            onClick={() => selection && apply({ type: 'crop', ...selection })}
+            disabled={!selection}
+            title="Keep only the selected region"
+            className={buttonClass}
+          >
+            Trim to selection
+          </button>
+          <button
+            onClick={() => selection && apply({ type: 'delete', ...selection })}
+            disabled={!selection}
+            className={buttonClass}
+          >
+            Delete selection
+          </button>
+          <input
+            type="number"
+            min={0.1}
+            max={30}
+            step={0.1}
+            value={silenceSeconds}
+            onChange={(e) => setSilenceSeconds(Math.max(0.1, Math.min(30, Number(e.target.value) || 0.1)))}
+            title="Seconds of silence to insert"
+            className="w-14 bg-slate-900 border border-slate-700 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-indigo-500 text-slate-300"
+          />
+          <button
+            onClick={() => apply({ type: 'silence', at: selection ? selection.start : currentTime, seconds: silenceSeconds })}
+            disabled={!audio}
+            title="Insert silence at the selection start, or at the playhead"
+            className={buttonClass}
+          >
+            Insert silence
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] text-slate-500">Silence:</span>
+        <button
+          onClick={() => applySilenceEdits({ trimEdges: true, maxPause: null, padding: silenceSettings.padding })}
+          disabled={!audio}
+          title="Cut dead air before and after the speech"
+          className={buttonClass}
+        >
+          Trim edges
+        </button>
+        <button
+          onClick={() => applySilenceEdits({ trimEdges: false, maxPause: silenceSettings.maxPause, padding: silenceSettings.padding })}
+          disabled={!audio}
+          title={`Shorten pauses longer than ${silenceSettings.maxPause}s`}
+          className={buttonClass}
+        >
+          Shorten pauses
+        </button>
+        <button
+          onClick={handleSplit}
+          disabled={!audio}
+          title={`Save each part between pauses of ${silenceSettings.splitPause}s or more as its own clip`}
+          className={buttonClass}
+        >
+          Split at pauses
+        </button>
+        {notice && <span className="text-[10px] text-slate-500">{notice}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformEditor;
@@ -1,4 +1,4 @@
-import { VoiceName, VoiceOption } from './types';
+import { VoiceName, VoiceOption, DeliveryStyle, SpeakingRate, Emotion, VocalIntensity, Language, CaptionSettings, TagSettings, Mp3Settings, AudioExportOptions, MusicMixSettings, SilenceSettings, TeleprompterSettings } from './types';
 
 export const VOICES: VoiceOption[] = [
   { 
@@ -40,3 +40,125 @@ export const VOICES: VoiceOption[] = [
 ];
 
 export const MAX_CHAR_COUNT = 1000000;
+
+export const LANGUAGES: Language[] = ['English', 'Hindi', 'Kannada', 'Telugu', 'Tamil', 'Malayalam'];
+
+// Gemini TTS truncates or rejects very long prompts, so long texts are
+// synthesized in pieces of at most this many characters and stitched together.
+export const TTS_CHUNK_CHAR_LIMIT = 3000;
+// The style instruction is sent with every chunk, so it has to leave room for the text
+export const STYLE_INSTRUCTION_MAX_LENGTH = 300;
+
+// Long uploads are transcribed in overlapping pieces: inline audio has to stay
+// under the request size limit, and timestamps drift over long stretches.
+export const TRANSCRIPTION_CHUNK_SECONDS = 300;
+export const TRANSCRIPTION_OVERLAP_SECONDS = 15;
+// Speech-to-text doesn't need more, and it keeps each chunk's upload small
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+// Uploads are decoded in full before chunking; past this, ask before using that much memory
+export const LARGE_UPLOAD_SECONDS = 60 * 60;
+export const LARGE_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+export interface StyleOption<T extends string> {
+  id: T;
+  label: string;
+  // Phrase used to steer the TTS model; empty means "no directive"
+  directive: string;
+}
+
+export const SPEAKING_RATES: StyleOption<SpeakingRate>[] = [
+  { id: 'slow', label: 'Slow', directive: 'slowly and deliberately' },
+  { id: 'normal', label: 'Normal', directive: '' },
+  { id: 'fast', label: 'Fast', directive: 'at a brisk, fast pace' },
+];
+
+export const EMOTIONS: StyleOption<Emotion>[] = [
+  { id: 'neutral', label: 'Neutral', directive: '' },
+  { id: 'cheerful', label: 'Cheerful', directive: 'in a cheerful, upbeat tone' },
+  { id: 'somber', label: 'Somber', directive: 'in a somber, subdued tone' },
+  { id: 'urgent', label: 'Urgent', directive: 'with a sense of urgency' },
+  { id: 'calm', label: 'Calm', directive: 'in a calm, reassuring tone' },
+  { id: 'excited', label: 'Excited', directive: 'with excitement and energy' },
+];
+
+export const VOCAL_INTENSITIES: StyleOption<VocalIntensity>[] = [
+  { id: 'whisper', label: 'Whisper', directive: 'in a soft whisper' },
+  { id: 'normal', label: 'Normal', directive: '' },
+  { id: 'loud', label: 'Loud', directive: 'loudly, projecting the voice' },
+];
+
+export const DEFAULT_DELIVERY_STYLE: DeliveryStyle = {
+  rate: 'normal',
+  emotion: 'neutral',
+  intensity: 'normal',
+  instruction: '',
+};
+
+// Broadcast captioning norms: two lines of at most 42 characters
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  timing: 'estimated',
+  maxCharsPerCue: 84,
+  lineLength: 42,
+};
+
+export const DEFAULT_TELEPROMPTER_SETTINGS: TeleprompterSettings = {
+  enabled: false,
+  pace: 'wpm',
+  wordsPerMinute: 150,
+};
+
+export const DEFAULT_SILENCE_SETTINGS: SilenceSettings = {
+  trimRecordings: true,
+  trimSpeech: false,
+  padding: 0.15,
+  maxPause: 0.75,
+  splitPause: 1.5,
+};
+
+export const DEFAULT_TAG_SETTINGS: TagSettings = {
+  album: 'Gemini Vox',
+};
+
+// Cover art is kept in localStorage, so keep it well under the quota
+export const MAX_COVER_IMAGE_BYTES = 512 * 1024;
+
+export const DEFAULT_MUSIC_MIX_SETTINGS: MusicMixSettings = {
+  ducking: true,
+  duckDepth: 12,
+  intro: 2,
+  outro: 3,
+  fadeIn: 1.5,
+  fadeOut: 2.5,
+  fadeCurve: 'equal-power',
+  musicOffset: 0,
+};
+
+export const DEFAULT_MP3_SETTINGS: Mp3Settings = {
+  bitrate: 128,
+  channels: 'mono',
+  sampleRate: 24000,
+};
+
+export const MP3_BITRATES = [64, 96, 128, 160, 192, 256, 320];
+
+// MPEG-1 rates (32 kHz and up) allow up to 320 kbps; MPEG-2 rates stop at 160 kbps
+export const MP3_SAMPLE_RATES = [16000, 22050, 24000, 32000, 44100, 48000];
+export const MPEG2_MAX_BITRATE = 160;
+
+export const DEFAULT_AUDIO_EXPORT_OPTIONS: AudioExportOptions = {
+  format: 'wav',
+  sampleRate: 48000,
+  sampleFormat: 'pcm24',
+  opusBitrate: 64,
+  channels: 'mono',
+  loudnessTarget: null,
+};
+
+export const LOUDNESS_TARGETS: { value: number, label: string }[] = [
+  { value: -16, label: '-16 LUFS (podcast)' },
+  { value: -23, label: '-23 LUFS (broadcast)' },
+];
+
+export const EXPORT_SAMPLE_RATES = [16000, 22050, 24000, 44100, 48000, 96000];
+
+export const OPUS_BITRATES = [24, 32, 48, 64, 96, 128];
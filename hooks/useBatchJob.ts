@@ -0,0 +1,268 @@
+import { useState, useRef, useEffect } from 'react';
+import { AudioResult, BatchItem, BatchJob, DeliveryStyle, VoiceName } from '../types';
+import { isAbortError } from '../services/scheduler';
+
+// Runs batch TTS jobs with bounded parallelism, pause/resume/cancel and retry,
+// delivering results in line order. Job state is mirrored to localStorage so an
+// interrupted batch can be resumed after a reload (finished clips are already in IndexedDB).
+
+const STORAGE_KEY = 'gemini-vox-batch-job';
+
+export type ProcessBatchItem = (item: BatchItem, job: BatchJob, signal: AbortSignal) => Promise<AudioResult>;
+
+// A line to synthesize, with any per-row overrides from an imported file
+export type BatchLine = Omit<BatchItem, 'index' | 'status' | 'resultId' | 'error'>;
+
+// One start/resume/retry of a job. A paused run's in-flight lines can still be
+// finishing while a resumed run works on the rest, so each keeps its own
+// controller and results.
+interface BatchRun {
+  id: number;
+  controller: AbortController;
+  // Finished results waiting for earlier lines, keyed by line index
+  buffer: Map<number, AudioResult>;
+  // False once all of the run's workers have returned
+  active: boolean;
+}
+
+export interface StartBatchOptions {
+  voice: VoiceName;
+  style?: DeliveryStyle;
+  concurrency: number;
+}
+
+// Anything that was in flight when the page closed has to run again
+const toResumable = (job: BatchJob): BatchJob => ({
+  ...job,
+  state: job.state === 'running' ? 'paused' : job.state,
+  items: job.items.map(i => i.status === 'running' ? { ...i, status: 'pending' } : i),
+});
+
+const loadJob = (): BatchJob | null => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return toResumable(JSON.parse(saved));
+  } catch (e) {
+    console.error("Failed to load batch job", e);
+    return null;
+  }
+};
+
+// Saving the whole job after every line update gets slow for big batches, so
+// progress is written at most this often (and right away when the page is hidden)
+const PERSIST_INTERVAL = 1000;
+
+// Saving is best-effort: a job too big for the storage quota still runs, it
+// just can't be resumed after a reload
+const persistJob = (job: BatchJob | null) => {
+  try {
+    if (job) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(toResumable(job)));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (e) {
+    console.error("Failed to save batch job", e);
+  }
+};
+
+export const useBatchJob = (processItem: ProcessBatchItem, onResult: (result: AudioResult) => void) => {
+  const [job, setJob] = useState<BatchJob | null>(loadJob);
+  const jobRef = useRef<BatchJob | null>(job);
+  // Runs whose workers are still going or whose results are still waiting
+  const runsRef = useRef(new Set<BatchRun>());
+  // Incremented on pause/cancel so workers from an older run stop picking up lines
+  const runIdRef = useRef(0);
+  const persistTimerRef = useRef<number | null>(null);
+
+  const processRef = useRef(processItem);
+  processRef.current = processItem;
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const savePending = () => {
+    if (persistTimerRef.current !== null) {
+      clearTimeout(persistTimerRef.current);
+      persistTimerRef.current = null;
+    }
+    persistJob(jobRef.current);
+  };
+
+  useEffect(() => {
+    window.addEventListener('pagehide', savePending);
+    return () => {
+      window.removeEventListener('pagehide', savePending);
+      runsRef.current.forEach(run => run.controller.abort());
+      if (persistTimerRef.current !== null) savePending();
+    };
+  }, []);
+
+  const update = (fn: (job: BatchJob) => BatchJob) => {
+    if (!jobRef.current) return;
+    jobRef.current = fn(jobRef.current);
+    setJob(jobRef.current);
+    if (persistTimerRef.current === null) {
+      persistTimerRef.current = window.setTimeout(savePending, PERSIST_INTERVAL);
+    }
+  };
+
+  const patchItem = (index: number, patch: Partial<BatchItem>) => {
+    update(j => ({ ...j, items: j.items.map(i => i.index === index ? { ...i, ...patch } : i) }));
+  };
+
+  const takeResult = (index: number): AudioResult | undefined => {
+    for (const run of runsRef.current) {
+      const result = run.buffer.get(index);
+      if (result) {
+        run.buffer.delete(index);
+        return result;
+      }
+    }
+  };
+
+  // Deliver finished results in line order. Failed lines don't hold up later
+  // ones, and nor do pending lines once the job has stopped; a line still in
+  // flight does, whichever run it belongs to.
+  const release = () => {
+    const current = jobRef.current;
+    for (const item of current?.items ?? []) {
+      if (item.status === 'done' || item.status === 'failed') continue;
+      const result = takeResult(item.index);
+      if (result) {
+        onResultRef.current(result);
+        patchItem(item.index, { status: 'done', resultId: result.id, error: undefined });
+      } else if (item.status === 'running' || current!.state === 'running') {
+        break;
+      }
+    }
+    runsRef.current.forEach(run => {
+      if (!run.active && run.buffer.size === 0) runsRef.current.delete(run);
+    });
+  };
+
+  const worker = async (run: BatchRun) => {
+    const { signal } = run.controller;
+    while (runIdRef.current === run.id && !signal.aborted) {
+      const current = jobRef.current;
+      const next = current?.items.find(i => i.status === 'pending');
+      if (!current || !next) return;
+
+      patchItem(next.index, { status: 'running', error: undefined });
+      try {
+        const result = await processRef.current(next, current, signal);
+        // A new job may have replaced this one in the meantime
+        if (jobRef.current?.id !== current.id) return;
+        run.buffer.set(next.index, result);
+        release();
+      } catch (err: any) {
+        if (jobRef.current?.id !== current.id) return;
+        if (isAbortError(err) || signal.aborted) {
+          patchItem(next.index, { status: 'pending' });
+          return;
+        }
+        console.error("Batch line failed", next.text, err);
+        patchItem(next.index, { status: 'failed', error: err.message || 'Unknown error' });
+        release();
+      }
+    }
+  };
+
+  const run = async (batchRun: BatchRun, current: BatchJob) => {
+    update(j => ({ ...j, state: 'running' }));
+    await Promise.all(Array.from({ length: current.concurrency }, () => worker(batchRun)));
+    batchRun.active = false;
+
+    // The last run to finish settles the job, unless it was paused or cancelled
+    if (jobRef.current?.id === current.id && jobRef.current.state === 'running' && !Array.from<BatchRun>(runsRef.current).some(r => r.active)) {
+      update(j => ({
+        ...j,
+        state: j.items.some(i => i.status === 'pending') ? 'paused' : 'completed',
+      }));
+    }
+    release();
+  };
+
+  // Nothing awaits a run, so an unexpected failure would otherwise leave lines stuck as running
+  const startRun = () => {
+    const current = jobRef.current;
+    if (!current) return;
+    const batchRun: BatchRun = { id: ++runIdRef.current, controller: new AbortController(), buffer: new Map(), active: true };
+    runsRef.current.add(batchRun);
+    run(batchRun, current).catch(err => {
+      console.error("Batch run failed", err);
+      runIdRef.current++;
+      runsRef.current.forEach((r: BatchRun) => {
+        r.controller.abort();
+        r.active = false;
+      });
+      update(j => toResumable({ ...j, state: 'running' }));
+      release();
+    });
+  };
+
+  const start = (lines: BatchLine[], options: StartBatchOptions) => {
+    runIdRef.current++;
+    runsRef.current.forEach(r => r.controller.abort());
+    runsRef.current.clear();
+    const newJob: BatchJob = {
+      id: Date.now().toString(),
+      createdAt: Date.now(),
+      voice: options.voice,
+      style: options.style,
+      concurrency: Math.max(1, options.concurrency),
+      state: 'running',
+      items: lines.map((line, index) => ({ ...line, index, status: 'pending' })),
+    };
+    jobRef.current = newJob;
+    setJob(newJob);
+    savePending();
+    startRun();
+  };
+
+  // Lets in-flight lines finish, then stops
+  const pause = () => {
+    runIdRef.current++;
+    update(j => ({ ...j, state: 'paused' }));
+  };
+
+  const resume = () => {
+    if (jobRef.current?.state === 'running') return;
+    startRun();
+  };
+
+  // Stops immediately, abandoning in-flight requests of every run
+  const cancel = () => {
+    runIdRef.current++;
+    runsRef.current.forEach(r => r.controller.abort());
+    update(j => ({ ...j, state: 'cancelled' }));
+  };
+
+  const retryFailed = () => {
+    if (jobRef.current?.state === 'running') return;
+    update(j => ({
+      ...j,
+      items: j.items.map(i => i.status === 'failed' ? { ...i, status: 'pending', error: undefined } : i),
+    }));
+    startRun();
+  };
+
+  const dismiss = () => {
+    cancel();
+    runsRef.current.clear();
+    jobRef.current = null;
+    setJob(null);
+    savePending();
+  };
+
+  return {
+    job,
+    isRunning: job?.state === 'running',
+    start,
+    pause,
+    resume,
+    cancel,
+    retryFailed,
+    dismiss,
+  };
+};
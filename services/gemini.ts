@@ -1,110 +1,270 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { VoiceName } from '../types';
-import { base64ToUint8Array, addWavHeader } from '../utils/audio';
+import { GoogleGenAI } from "@google/genai";
+import { VoiceName, DialogueTurn, DeliveryStyle, SentenceTiming, TimedSegment, Transcript } from '../types';
+import { addWavHeader, concatPcm, createSilence, getPcmDuration, resamplePcm } from '../utils/audio';
+import { splitTextIntoChunks, splitSentences, buildStyleDirective } from '../utils/text';
+import { estimateSentenceTimings } from '../utils/subtitles';
+import { parseMarkup, formatMarkupErrors } from '../utils/markup';
+import { planTranscriptionChunks, mergeChunkTranscripts, TranscriptionChunk } from '../utils/transcript';
+import { TTS_CHUNK_CHAR_LIMIT, DEFAULT_DELIVERY_STYLE, TRANSCRIPTION_CHUNK_SECONDS, TRANSCRIPTION_OVERLAP_SECONDS, TRANSCRIPTION_SAMPLE_RATE } from '../constants';
+import { getSpeechProvider, getTextProvider, SynthesisRequest } from './providers';
+import { handleGeminiError } from './providers/gemini';
+import { scheduleRequest, sleep, isAbortError } from './scheduler';
 
-// Helper to get AI client. 
-// For Veo (Video), we might need to re-instantiate if the key updates via the UI picker.
-const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Public entry points for speech and text generation. Each call is routed to the
+// provider selected in settings (Gemini by default, or the offline mock/browser ones).
 
-const handleGeminiError = (error: any): never => {
-  console.error("Gemini API Error:", error);
-  const msg = error.message || error.toString();
-  
-  if (msg.includes("429") || msg.includes("quota")) {
-    throw new Error("Quota exceeded. Please wait a moment or check your API limits.");
+export interface SpeechOptions {
+  // Delivery directives prepended to every request as natural-language steering
+  style?: DeliveryStyle;
+  onProgress?: (completed: number, total: number) => void;
+  // Cancels queued, retrying and in-flight requests
+  signal?: AbortSignal;
+  // How sentence timings are derived (see SentenceTiming)
+  timing?: SentenceTiming;
+}
+
+export interface SpeechResult {
+  blobUrl: string;
+  pcmData: Uint8Array;
+  // Sentence-level timing; not available for dialogue clips
+  segments?: TimedSegment[];
+}
+
+const synthesizeChunk = async (request: SynthesisRequest, signal?: AbortSignal): Promise<Uint8Array> => {
+  signal?.throwIfAborted();
+  const provider = getSpeechProvider();
+  if (!provider.synthesize) {
+    throw new Error(`${provider.label} can only play speech aloud and cannot produce downloadable audio. Choose another speech engine in Settings.`);
+  }
+  return provider.synthesize(request, signal);
+};
+
+/**
+ * Whether the active speech provider can only play speech live (no audio data).
+ */
+export const isLiveOnlySpeechProvider = (): boolean => !getSpeechProvider().synthesize;
+
+/**
+ * Speaks text aloud through the active provider's live playback.
+ */
+export const speakText = async (text: string, voice: VoiceName, style?: DeliveryStyle, signal?: AbortSignal): Promise<void> => {
+  const provider = getSpeechProvider();
+  if (!provider.speak) {
+    throw new Error(`${provider.label} does not support live playback.`);
   }
-  if (msg.includes("401") || msg.includes("403") || msg.includes("API key")) {
-    throw new Error("API Key Error. Please ensure your key is valid and has permissions.");
+  await provider.speak(text, voice, style, signal);
+};
+
+/**
+ * Synthesizes speech for text of any length.
+ * Long texts are split at paragraph/sentence boundaries, each chunk is synthesized
+ * with the same voice, and the raw PCM is stitched into a single clip.
+ * Sentence timings come from each request's measured duration; with 'per-sentence'
+ * timing every sentence is its own request, otherwise a chunk's duration is shared
+ * among its sentences by length.
+ */
+export const generateSpeech = async (
+  text: string,
+  voice: VoiceName,
+  options: SpeechOptions = {}
+): Promise<SpeechResult> => {
+  const { style, onProgress, signal, timing = 'estimated' } = options;
+  const directive = buildStyleDirective(style);
+  let chunks = splitTextIntoChunks(text, TTS_CHUNK_CHAR_LIMIT - directive.length);
+  if (timing === 'per-sentence') {
+    chunks = chunks.flatMap(chunk => splitSentences(chunk.replace(/\s+/g, ' ')));
   }
-  if (msg.includes("404") || msg.includes("not found")) {
-    throw new Error("Model or Resource not found. (404)");
+  if (chunks.length === 0) {
+    throw new Error("No text to synthesize.");
   }
-  if (msg.includes("503") || msg.includes("overloaded")) {
-    throw new Error("Service overloaded. Please try again in a few seconds.");
+
+  const pcmChunks: Uint8Array[] = [];
+  const segments: TimedSegment[] = [];
+  let offset = 0;
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.(i, chunks.length);
+    const pcm = await synthesizeChunk({ text: chunks[i], voice, style }, signal);
+    const duration = getPcmDuration(pcm);
+    segments.push(...estimateSentenceTimings(chunks[i], offset, duration));
+    pcmChunks.push(pcm);
+    offset += duration;
   }
+  onProgress?.(chunks.length, chunks.length);
 
-  throw new Error(`API Error: ${msg}`);
+  const pcmData = concatPcm(pcmChunks);
+  const wavBuffer = addWavHeader(pcmData, 24000, 1); 
+  const blob = new Blob([wavBuffer], { type: 'audio/wav' });
+
+  return {
+    blobUrl: URL.createObjectURL(blob),
+    pcmData,
+    segments
+  };
 };
 
-export const generateSpeech = async (text: string, voice: VoiceName): Promise<{ blobUrl: string, pcmData: Uint8Array }> => {
-  const ai = getAiClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
-          },
-        },
-      },
-    });
+/**
+ * Synthesizes text containing inline markup ([pause 1.5s], *emphasis*, [voice=Charon]...[/voice]).
+ * Each speech segment goes through generateSpeech; pauses become exact-length PCM silence.
+ * Throws with line/column positions if the markup is invalid.
+ */
+export const generateMarkedUpSpeech = async (
+  text: string,
+  defaultVoice: VoiceName,
+  options: SpeechOptions = {}
+): Promise<SpeechResult> => {
+  const { style, onProgress, signal, timing } = options;
+  const { segments, errors } = parseMarkup(text);
+  if (errors.length > 0) {
+    throw new Error(`Invalid markup. ${formatMarkupErrors(errors)}`);
+  }
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  const speechCount = segments.filter(s => s.type === 'speech').length;
+  if (speechCount === 0) {
+    throw new Error("No text to synthesize.");
+  }
 
-    if (!base64Audio) {
-      throw new Error("No audio data returned from Gemini API");
-    }
+  const baseStyle = style ?? DEFAULT_DELIVERY_STYLE;
+  const emphasisStyle: DeliveryStyle = {
+    ...baseStyle,
+    instruction: [baseStyle.instruction.trim(), 'with strong emphasis'].filter(Boolean).join('; '),
+  };
 
-    const pcmData = base64ToUint8Array(base64Audio);
-    const wavBuffer = addWavHeader(pcmData, 24000, 1); 
-    const blob = new Blob([wavBuffer], { type: 'audio/wav' });
-    
-    return {
-      blobUrl: URL.createObjectURL(blob),
-      pcmData
-    };
-  } catch (error) {
-    handleGeminiError(error);
+  const pcmChunks: Uint8Array[] = [];
+  const timedSegments: TimedSegment[] = [];
+  let offset = 0;
+  let completed = 0;
+  for (const segment of segments) {
+    if (segment.type === 'pause') {
+      const silence = createSilence(segment.seconds);
+      pcmChunks.push(silence);
+      offset += getPcmDuration(silence);
+      continue;
+    }
+    onProgress?.(completed, speechCount);
+    const result = await generateSpeech(segment.text.trim(), segment.voice ?? defaultVoice, {
+      style: segment.emphasis ? emphasisStyle : style,
+      signal,
+      timing,
+    });
+    URL.revokeObjectURL(result.blobUrl);
+    pcmChunks.push(result.pcmData);
+    timedSegments.push(...(result.segments ?? []).map(s => ({ ...s, start: s.start + offset, end: s.end + offset })));
+    offset += getPcmDuration(result.pcmData);
+    completed++;
   }
+  onProgress?.(speechCount, speechCount);
+
+  const pcmData = concatPcm(pcmChunks);
+  const wavBuffer = addWavHeader(pcmData, 24000, 1);
+  const blob = new Blob([wavBuffer], { type: 'audio/wav' });
+
+  return {
+    blobUrl: URL.createObjectURL(blob),
+    pcmData,
+    segments: timedSegments
+  };
 };
 
+// Gap inserted between turns when a dialogue is synthesized line by line
+const DIALOGUE_TURN_GAP_SECONDS = 0.3;
+
 /**
- * Generates creative text content (scripts, stories, etc.)
+ * Groups dialogue turns into prompts that fit a single TTS request,
+ * splitting any overly long turn into several turns by the same speaker.
  */
-export const generateScript = async (topic: string, tone: string = 'neutral'): Promise<string> => {
-  const ai = getAiClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [{ 
-          text: `Write a short, engaging text-to-speech script about: "${topic}". 
-                 Tone: ${tone}. 
-                 Keep it concise (under 1000 characters) and optimized for spoken audio.
-                 Do not include scene directions like [Intro Music], just the spoken text.`
-        }]
+const groupDialogueTurns = (turns: DialogueTurn[], maxChars: number): DialogueTurn[][] => {
+  if (maxChars <= 0) throw new Error("There's no room left for dialogue in the request; shorten the style instruction.");
+  const groups: DialogueTurn[][] = [];
+  let current: DialogueTurn[] = [];
+  let currentLength = 0;
+
+  for (const turn of turns) {
+    const budget = maxChars - turn.speaker.length - 2;
+    for (const text of splitTextIntoChunks(turn.text, budget)) {
+      const lineLength = turn.speaker.length + 2 + text.length + 1;
+      if (current.length > 0 && currentLength + lineLength > maxChars) {
+        groups.push(current);
+        current = [];
+        currentLength = 0;
       }
-    });
-    return response.text || "";
-  } catch (error) {
-    handleGeminiError(error);
+      current.push({ speaker: turn.speaker, text });
+      currentLength += lineLength;
+    }
   }
+  if (current.length > 0) groups.push(current);
+  return groups;
 };
 
-export const translateText = async (text: string, targetLanguage: string): Promise<string> => {
-  const ai = getAiClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [{ 
-          text: `Translate the following text to ${targetLanguage}. Return only the translated text, do not include any preamble or explanation.
-          
-          Text: "${text}"`
-        }]
-      }
-    });
-    return response.text || "";
-  } catch (error) {
-    handleGeminiError(error);
+/**
+ * Synthesizes a multi-speaker dialogue as one clip.
+ * Two-speaker scripts use the provider's native multi-speaker mode (Gemini accepts
+ * exactly two speakers); other scripts are synthesized turn by turn and concatenated.
+ */
+export const generateDialogue = async (
+  turns: DialogueTurn[],
+  speakerVoices: Record<string, VoiceName>,
+  options: SpeechOptions = {}
+): Promise<SpeechResult> => {
+  const { style, onProgress, signal } = options;
+  const directive = buildStyleDirective(style);
+  const speakers = Array.from(new Set(turns.map(t => t.speaker)));
+  if (turns.length === 0) {
+    throw new Error("The dialogue script has no lines. Use the format \"Name: line\".");
+  }
+  const missing = speakers.filter(s => !speakerVoices[s]);
+  if (missing.length > 0) {
+    throw new Error(`No voice assigned for: ${missing.join(', ')}`);
+  }
+
+  const pcmChunks: Uint8Array[] = [];
+
+  if (speakers.length === 2 && getSpeechProvider().supportsMultiSpeaker) {
+    const speakerConfig = speakers.map(speaker => ({ speaker, voice: speakerVoices[speaker] }));
+    // Reserve room for the conversation preamble in each request
+    const groups = groupDialogueTurns(turns, TTS_CHUNK_CHAR_LIMIT - directive.length - 200);
+    for (let i = 0; i < groups.length; i++) {
+      onProgress?.(i, groups.length);
+      pcmChunks.push(await synthesizeChunk({
+        text: groups[i].map(t => `${t.speaker}: ${t.text}`).join('\n'),
+        speakers: speakerConfig,
+        style,
+      }, signal));
+    }
+    onProgress?.(groups.length, groups.length);
+  } else {
+    // Fallback: one request per turn with that speaker's voice
+    const lines = turns.flatMap(turn =>
+      splitTextIntoChunks(turn.text, TTS_CHUNK_CHAR_LIMIT - directive.length).map(text => ({ speaker: turn.speaker, text }))
+    );
+    const gap = createSilence(DIALOGUE_TURN_GAP_SECONDS);
+    for (let i = 0; i < lines.length; i++) {
+      onProgress?.(i, lines.length);
+      if (i > 0) pcmChunks.push(gap);
+      pcmChunks.push(await synthesizeChunk({ text: lines[i].text, voice: speakerVoices[lines[i].speaker], style }, signal));
+    }
+    onProgress?.(lines.length, lines.length);
   }
+
+  const pcmData = concatPcm(pcmChunks);
+  const wavBuffer = addWavHeader(pcmData, 24000, 1);
+  const blob = new Blob([wavBuffer], { type: 'audio/wav' });
+
+  return {
+    blobUrl: URL.createObjectURL(blob),
+    pcmData
+  };
 };
 
-export const extractTextFromDocument = async (file: File): Promise<string> => {
-  const ai = getAiClient();
+/**
+ * Generates creative text content (scripts, stories, etc.)
+ */
+export const generateScript = (topic: string, tone: string = 'neutral', signal?: AbortSignal): Promise<string> =>
+  getTextProvider().generateScript(topic, tone, signal);
+
+export const translateText = (text: string, targetLanguage: string, signal?: AbortSignal): Promise<string> =>
+  getTextProvider().translateText(text, targetLanguage, signal);
+
+export const extractTextFromDocument = async (file: File, signal?: AbortSignal): Promise<string> => {
   if (file.type === 'text/plain') {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -113,124 +273,90 @@ export const extractTextFromDocument = async (file: File): Promise<string> => {
       reader.readAsText(file);
     });
   }
-
-  try {
-    const base64Data = await fileToBase64(file);
-    
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: file.type,
-              data: base64Data
-            }
-          },
-          {
-            text: "You are a text extraction tool. Extract all readable text from the provided document strictly verbatim. Do not summarize. Return only the extracted text."
-          }
-        ]
-      }
-    });
-
-    return response.text || "";
-  } catch (error) {
-    handleGeminiError(error);
-  }
+  return getTextProvider().extractText(file, signal);
 };
 
 /**
  * Explains a presentation (PPTX or PDF).
  * If PPTX, extracts text client-side first to ensure compatibility.
  */
-export const explainPresentation = async (file: File): Promise<string> => {
-  const ai = getAiClient();
-  let contentPart: any;
-
-  try {
-    // Handle PPTX: Extract text via JSZip because Gemini API inlineData prefers PDF/Images
-    if (file.name.endsWith('.pptx') || file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') {
-      const pptxText = await extractTextFromPptx(file);
-      contentPart = { text: `Here is the raw text content extracted from a PowerPoint presentation, organized by slide:\n\n${pptxText}` };
-    } else {
-      // Handle PDF: Use inline data
-      const base64Data = await fileToBase64(file);
-      contentPart = {
-        inlineData: {
-          mimeType: file.type,
-          data: base64Data
-        }
-      };
-    }
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          contentPart,
-          {
-            text: "Analyze this presentation content. Create a natural, engaging audio script that explains the content of the slides. Narrate the story of the presentation as if you are a speaker presenting it. Do not just list bullet points. Separate sections clearly."
-          }
-        ]
-      }
-    });
-
-    return response.text || "";
-  } catch (error) {
-    handleGeminiError(error);
+export const explainPresentation = async (file: File, signal?: AbortSignal): Promise<string> => {
+  // Handle PPTX: Extract text via JSZip because Gemini API inlineData prefers PDF/Images
+  if (file.name.endsWith('.pptx') || file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') {
+    const pptxText = await extractTextFromPptx(file);
+    return getTextProvider().explainPresentation({ kind: 'text', text: pptxText }, signal);
   }
+  return getTextProvider().explainPresentation({ kind: 'file', file }, signal);
 };
 
 // Transcribe Audio (Speech to Text)
-export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
-  const ai = getAiClient();
-  try {
-    const base64Data = await blobToBase64(audioBlob);
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: audioBlob.type || 'audio/webm',
-              data: base64Data
-            }
-          },
-          {
-             text: "Transcribe this audio exactly as spoken."
-          }
-        ]
-      }
-    });
-    return response.text || "";
-  } catch (error) {
-    handleGeminiError(error);
-  }
+export const transcribeAudio = (audioBlob: Blob, signal?: AbortSignal): Promise<Transcript> =>
+  getTextProvider().transcribeAudio(audioBlob, signal);
+
+export interface TranscriptionPart {
+  chunk: TranscriptionChunk;
+  transcript: Transcript;
 }
 
+export interface TranscriptionOptions {
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+  // Parts finished so far, by chunk index. Parts already here are skipped and
+  // new ones are added as they finish, so a failed run can be resumed by
+  // passing the same array again.
+  parts?: TranscriptionPart[];
+}
+
+/**
+ * Transcribes decoded 24kHz mono PCM of any length. Long audio is sent in
+ * overlapping chunks (see `planTranscriptionChunks`), one request at a time,
+ * and the chunk transcripts are merged with the overlaps de-duplicated.
+ * When a chunk fails, the error names the part.
+ */
+export const transcribePcm = async (pcmData: Uint8Array, options: TranscriptionOptions = {}): Promise<Transcript> => {
+  const { onProgress, signal, parts = [] } = options;
+  const chunks = planTranscriptionChunks(getPcmDuration(pcmData), TRANSCRIPTION_CHUNK_SECONDS, TRANSCRIPTION_OVERLAP_SECONDS);
+  for (let i = 0; i < chunks.length; i++) {
+    if (parts[i]) continue;
+    onProgress?.(i, chunks.length);
+    const { start, end } = chunks[i];
+    const pcm = resamplePcm(pcmData.subarray(Math.round(start * 24000) * 2, Math.round(end * 24000) * 2), 24000, TRANSCRIPTION_SAMPLE_RATE);
+    const wav = new Blob([addWavHeader(pcm, TRANSCRIPTION_SAMPLE_RATE, 1)], { type: 'audio/wav' });
+    try {
+      parts[i] = { chunk: chunks[i], transcript: await transcribeAudio(wav, signal) };
+    } catch (error: any) {
+      if (isAbortError(error) || chunks.length === 1) throw error;
+      throw new Error(`Part ${i + 1} of ${chunks.length} failed: ${error.message || error}`);
+    }
+  }
+  onProgress?.(chunks.length, chunks.length);
+  return mergeChunkTranscripts(parts);
+};
+
 // Generate Video (Text to Video)
-export const generateVideo = async (prompt: string): Promise<string> => {
+export const generateVideo = async (prompt: string, signal?: AbortSignal): Promise<string> => {
   // IMPORTANT: Re-instantiate to catch the latest API key from the picker
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY }); 
 
   try {
     console.log("Starting video generation...");
-    let operation = await ai.models.generateVideos({
+    let operation = await scheduleRequest(abortSignal => ai.models.generateVideos({
       model: 'veo-3.1-fast-generate-preview',
       prompt: prompt,
       config: {
         numberOfVideos: 1,
         resolution: '720p',
-        aspectRatio: '16:9'
+        aspectRatio: '16:9',
+        abortSignal
       }
-    });
+    }), { label: 'Video', signal });
 
     console.log("Video operation started:", operation);
 
     while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-      operation = await ai.operations.getVideosOperation({operation: operation});
+      await sleep(5000, signal); // Poll every 5s
+      const pending = operation;
+      operation = await scheduleRequest(abortSignal => ai.operations.getVideosOperation({ operation: pending, config: { abortSignal } }), { label: 'Video status', signal });
       console.log("Polling video status...");
     }
 
@@ -238,11 +364,17 @@ export const generateVideo = async (prompt: string): Promise<string> => {
     if (!downloadLink) throw new Error("No video URI returned");
 
     // Fetch the actual video bytes using the key
-    const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+    const response = await scheduleRequest(async abortSignal => {
+      const res = await fetch(`${downloadLink}&key=${process.env.API_KEY}`, { signal: abortSignal });
+      // fetch resolves on HTTP errors; throw with the status so 429/503 are retried
+      if (!res.ok) throw Object.assign(new Error(`Video download failed (${res.status} ${res.statusText})`), { status: res.status });
+      return res;
+    }, { label: 'Video download', signal });
     const videoBlob = await response.blob();
     return URL.createObjectURL(videoBlob);
 
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("Video Generation Error:", error);
     
     // Check for 404 Not Found (API Key Issue) in various possible error structures
@@ -260,32 +392,6 @@ export const generateVideo = async (prompt: string): Promise<string> => {
   }
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-       const result = reader.result as string;
-       const base64 = result.split(',')[1];
-       resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-};
-
 // Client-side PPTX Text Extraction
 const extractTextFromPptx = async (file: File): Promise<string> => {
   // @ts-ignore
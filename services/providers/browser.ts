@@ -0,0 +1,61 @@
+import { VoiceName } from '../../types';
+import { VOICES } from '../../constants';
+import { SpeechProvider } from './types';
+
+// Fallback that uses the browser's built-in speechSynthesis voices.
+// speechSynthesis plays straight to the speakers and exposes no audio data,
+// so this provider can only speak live; it cannot produce downloadable clips.
+
+const loadBrowserVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  // Chrome populates the list asynchronously
+  return new Promise(resolve => {
+    const timeout = window.setTimeout(() => resolve(window.speechSynthesis.getVoices()), 1000);
+    window.speechSynthesis.addEventListener('voiceschanged', () => {
+      window.clearTimeout(timeout);
+      resolve(window.speechSynthesis.getVoices());
+    }, { once: true });
+  });
+};
+
+/**
+ * Maps a Gemini voice onto a browser voice, keeping the mapping stable per voice.
+ */
+const pickBrowserVoice = (voices: SpeechSynthesisVoice[], voice: VoiceName): SpeechSynthesisVoice | undefined => {
+  const preferred = voices.filter(v => v.lang.startsWith(navigator.language.split('-')[0]));
+  const pool = preferred.length > 0 ? preferred : voices;
+  if (pool.length === 0) return undefined;
+  const index = VOICES.findIndex(v => v.id === voice);
+  return pool[Math.max(0, index) % pool.length];
+};
+
+export const browserSpeechProvider: SpeechProvider = {
+  id: 'browser',
+  label: 'Browser voices (live playback only)',
+  supportsMultiSpeaker: false,
+  speak: async (text, voice, style, signal) => {
+    if (!('speechSynthesis' in window)) {
+      throw new Error("Speech synthesis is not supported in this browser.");
+    }
+    const voices = await loadBrowserVoices();
+    const utterance = new SpeechSynthesisUtterance(text);
+    const browserVoice = pickBrowserVoice(voices, voice);
+    if (browserVoice) utterance.voice = browserVoice;
+    utterance.rate = style?.rate === 'slow' ? 0.8 : style?.rate === 'fast' ? 1.25 : 1;
+    utterance.volume = style?.intensity === 'whisper' ? 0.4 : 1;
+
+    signal?.throwIfAborted();
+    window.speechSynthesis.cancel();
+    const onAbort = () => window.speechSynthesis.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    await new Promise<void>((resolve, reject) => {
+      utterance.onend = () => resolve();
+      utterance.onerror = (e) => {
+        if (e.error === 'canceled' || e.error === 'interrupted') resolve();
+        else reject(new Error(`Browser speech error: ${e.error}`));
+      };
+      window.speechSynthesis.speak(utterance);
+    }).finally(() => signal?.removeEventListener('abort', onAbort));
+  },
+};
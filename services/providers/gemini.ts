@@ -0,0 +1,281 @@
+import { GoogleGenAI, Modality, SpeechConfig, Schema, Type } from "@google/genai";
+import { base64ToUint8Array } from '../../utils/audio';
+import { buildStyleDirective } from '../../utils/text';
+import { parseTranscript } from '../../utils/transcript';
+import { Transcript } from '../../types';
+import { scheduleRequest, isAbortError } from '../scheduler';
+import { SpeechProvider, TextProvider, SynthesisRequest, PresentationContent } from './types';
+
+// Helper to get AI client.
+// For Veo (Video), we might need to re-instantiate if the key updates via the UI picker.
+export const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+export const handleGeminiError = (error: any): never => {
+  // Cancellation is not an API failure; let callers recognise it
+  if (isAbortError(error)) throw error;
+  console.error("Gemini API Error:", error);
+  const msg = error.message || error.toString();
+
+  if (msg.includes("429") || msg.includes("quota")) {
+    throw new Error("Quota exceeded. Please wait a moment or check your API limits.");
+  }
+  if (msg.includes("401") || msg.includes("403") || msg.includes("API key")) {
+    throw new Error("API Key Error. Please ensure your key is valid and has permissions.");
+  }
+  if (msg.includes("404") || msg.includes("not found")) {
+    throw new Error("Model or Resource not found. (404)");
+  }
+  if (msg.includes("503") || msg.includes("overloaded")) {
+    throw new Error("Service overloaded. Please try again in a few seconds.");
+  }
+
+  throw new Error(`API Error: ${msg}`);
+};
+
+const toSpeechConfig = (request: SynthesisRequest): SpeechConfig => {
+  if ('speakers' in request) {
+    return {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: request.speakers.map(({ speaker, voice }) => ({
+          speaker,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        })),
+      },
+    };
+  }
+  return {
+    voiceConfig: {
+      prebuiltVoiceConfig: { voiceName: request.voice },
+    },
+  };
+};
+
+const toSpeechPrompt = (request: SynthesisRequest): string => {
+  const directive = buildStyleDirective(request.style);
+  if ('speakers' in request) {
+    const names = request.speakers.map(s => s.speaker).join(' and ');
+    return `${directive}TTS the following conversation between ${names}:\n${request.text}`;
+  }
+  return directive + request.text;
+};
+
+export const geminiSpeechProvider: SpeechProvider = {
+  id: 'gemini',
+  label: 'Gemini TTS',
+  supportsMultiSpeaker: true,
+  synthesize: async (request, signal) => {
+    const ai = getAiClient();
+    try {
+      const response = await scheduleRequest(abortSignal => ai.models.generateContent({
+        model: "gemini-2.5-flash-preview-tts",
+        contents: [{ parts: [{ text: toSpeechPrompt(request) }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: toSpeechConfig(request),
+          abortSignal,
+        },
+      }), { label: 'Speech', signal });
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+
+      if (!base64Audio) {
+        throw new Error("No audio data returned from Gemini API");
+      }
+
+      return base64ToUint8Array(base64Audio);
+    } catch (error) {
+      handleGeminiError(error);
+    }
+  },
+};
+
+/**
+ * Generates creative text content (scripts, stories, etc.)
+ */
+const generateScript = async (topic: string, tone: string, signal?: AbortSignal): Promise<string> => {
+  const ai = getAiClient();
+  try {
+    const response = await scheduleRequest(abortSignal => ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [{
+          text: `Write a short, engaging text-to-speech script about: "${topic}".
+                 Tone: ${tone}.
+                 Keep it concise (under 1000 characters) and optimized for spoken audio.
+                 Do not include scene directions like [Intro Music], just the spoken text.`
+        }]
+      },
+      config: { abortSignal },
+    }), { label: 'Script', signal });
+    return response.text || "";
+  } catch (error) {
+    handleGeminiError(error);
+  }
+};
+
+const translateText = async (text: string, targetLanguage: string, signal?: AbortSignal): Promise<string> => {
+  const ai = getAiClient();
+  try {
+    const response = await scheduleRequest(abortSignal => ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [{
+          text: `Translate the following text to ${targetLanguage}. Return only the translated text, do not include any preamble or explanation.
+
+          Text: "${text}"`
+        }]
+      },
+      config: { abortSignal },
+    }), { label: 'Translation', signal });
+    return response.text || "";
+  } catch (error) {
+    handleGeminiError(error);
+  }
+};
+
+const extractText = async (file: File, signal?: AbortSignal): Promise<string> => {
+  const ai = getAiClient();
+  try {
+    const base64Data = await blobToBase64(file);
+
+    const response = await scheduleRequest(abortSignal => ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: file.type,
+              data: base64Data
+            }
+          },
+          {
+            text: "You are a text extraction tool. Extract all readable text from the provided document strictly verbatim. Do not summarize. Return only the extracted text."
+          }
+        ]
+      },
+      config: { abortSignal },
+    }), { label: 'Extraction', signal });
+
+    return response.text || "";
+  } catch (error) {
+    handleGeminiError(error);
+  }
+};
+
+const explainPresentation = async (content: PresentationContent, signal?: AbortSignal): Promise<string> => {
+  const ai = getAiClient();
+  let contentPart: any;
+
+  try {
+    if (content.kind === 'text') {
+      contentPart = { text: `Here is the raw text content extracted from a PowerPoint presentation, organized by slide:\n\n${content.text}` };
+    } else {
+      // Handle PDF: Use inline data
+      const base64Data = await blobToBase64(content.file);
+      contentPart = {
+        inlineData: {
+          mimeType: content.file.type,
+          data: base64Data
+        }
+      };
+    }
+
+    const response = await scheduleRequest(abortSignal => ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          contentPart,
+          {
+            text: "Analyze this presentation content. Create a natural, engaging audio script that explains the content of the slides. Narrate the story of the presentation as if you are a speaker presenting it. Do not just list bullet points. Separate sections clearly."
+          }
+        ]
+      },
+      config: { abortSignal },
+    }), { label: 'Presentation', signal });
+
+    return response.text || "";
+  } catch (error) {
+    handleGeminiError(error);
+  }
+};
+
+const TRANSCRIPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    language: { type: Type.STRING, description: "Language spoken, as an English name, e.g. \"English\" or \"Hindi\"" },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start time in seconds from the beginning of the audio" },
+          end: { type: Type.NUMBER, description: "End time in seconds from the beginning of the audio" },
+          speaker: { type: Type.STRING, description: "Speaker label, e.g. \"Speaker 1\"" },
+          text: { type: Type.STRING },
+        },
+        required: ['start', 'end', 'text'],
+        propertyOrdering: ['start', 'end', 'speaker', 'text'],
+      },
+    },
+  },
+  required: ['segments'],
+  propertyOrdering: ['language', 'segments'],
+};
+
+// Transcribe Audio (Speech to Text)
+const transcribeAudio = async (audioBlob: Blob, signal?: AbortSignal): Promise<Transcript> => {
+  const ai = getAiClient();
+  try {
+    const base64Data = await blobToBase64(audioBlob);
+    const response = await scheduleRequest(abortSignal => ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: audioBlob.type || 'audio/webm',
+              data: base64Data
+            }
+          },
+          {
+             text: `Transcribe this audio exactly as spoken, in the language it is spoken in.
+                    Split it into segments of one sentence or phrase each (at most about 10 seconds), with start and end times in seconds.
+                    Label each segment with its speaker ("Speaker 1", "Speaker 2", ...), using the same label whenever the same person speaks.
+                    Also give the language spoken.`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: TRANSCRIPT_SCHEMA,
+        abortSignal,
+      },
+    }), { label: 'Transcription', signal });
+    return parseTranscript(response.text || '');
+  } catch (error) {
+    handleGeminiError(error);
+  }
+};
+
+export const geminiTextProvider: TextProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  generateScript,
+  translateText,
+  extractText,
+  explainPresentation,
+  transcribeAudio,
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+       const result = reader.result as string;
+       const base64 = result.split(',')[1];
+       resolve(base64);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
@@ -0,0 +1,47 @@
+import { ProviderSettings, SpeechProviderId, TextProviderId } from '../../types';
+import { SpeechProvider, TextProvider } from './types';
+import { geminiSpeechProvider, geminiTextProvider } from './gemini';
+import { mockSpeechProvider, mockTextProvider } from './mock';
+import { browserSpeechProvider } from './browser';
+
+export type { SpeechProvider, TextProvider, SynthesisRequest, SpeakerVoice, PresentationContent } from './types';
+
+export const SPEECH_PROVIDERS: Record<SpeechProviderId, SpeechProvider> = {
+  gemini: geminiSpeechProvider,
+  mock: mockSpeechProvider,
+  browser: browserSpeechProvider,
+};
+
+export const TEXT_PROVIDERS: Record<TextProviderId, TextProvider> = {
+  gemini: geminiTextProvider,
+  mock: mockTextProvider,
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  speech: 'gemini',
+  text: 'gemini',
+};
+
+const isProviderId = <T extends string>(registry: Record<T, unknown>, id: unknown): id is T =>
+  typeof id === 'string' && Object.prototype.hasOwnProperty.call(registry, id);
+
+/**
+ * Reads saved provider settings, falling back to the defaults for any id
+ * that isn't a known provider (e.g. one from an older version).
+ */
+export const parseProviderSettings = (saved: any): ProviderSettings => ({
+  speech: isProviderId(SPEECH_PROVIDERS, saved?.speech) ? saved.speech : DEFAULT_PROVIDER_SETTINGS.speech,
+  text: isProviderId(TEXT_PROVIDERS, saved?.text) ? saved.text : DEFAULT_PROVIDER_SETTINGS.text,
+});
+
+let activeSettings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS;
+
+export const configureProviders = (settings: ProviderSettings) => {
+  activeSettings = settings;
+};
+
+export const getSpeechProvider = (): SpeechProvider =>
+  SPEECH_PROVIDERS[activeSettings.speech] ?? geminiSpeechProvider;
+
+export const getTextProvider = (): TextProvider =>
+  TEXT_PROVIDERS[activeSettings.text] ?? geminiTextProvider;
@@ -0,0 +1,108 @@
+import { VoiceName, DeliveryStyle } from '../../types';
+import { SpeechProvider, TextProvider } from './types';
+
+// Offline providers for development and demos. Output is deterministic:
+// the same text and voice always produce the same tones and canned text.
+
+const SAMPLE_RATE = 24000;
+
+// Base pitch per voice so different voices are audibly distinct
+const VOICE_PITCH: Record<VoiceName, number> = {
+  [VoiceName.Kore]: 220,
+  [VoiceName.Puck]: 180,
+  [VoiceName.Charon]: 110,
+  [VoiceName.Fenrir]: 130,
+  [VoiceName.Zephyr]: 260,
+  [VoiceName.Aoede]: 240,
+};
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Renders text as a sequence of short tones, one per word, with pauses at punctuation.
+ */
+const renderTones = (text: string, voice: VoiceName, style?: DeliveryStyle): Float32Array[] => {
+  const rateFactor = style?.rate === 'slow' ? 0.75 : style?.rate === 'fast' ? 1.3 : 1;
+  const amplitude = style?.intensity === 'whisper' ? 0.1 : style?.intensity === 'loud' ? 0.6 : 0.3;
+  const basePitch = VOICE_PITCH[voice] ?? 200;
+  const fade = Math.round(0.01 * SAMPLE_RATE);
+
+  const blocks: Float32Array[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const seconds = Math.min(0.6, Math.max(0.12, word.length * 0.06)) / rateFactor;
+    const frequency = basePitch * (1 + (hashString(word.toLowerCase()) % 7) / 12);
+    const tone = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < tone.length; i++) {
+      const envelope = Math.min(1, i / fade, (tone.length - i) / fade);
+      tone[i] = amplitude * envelope * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    blocks.push(tone);
+
+    const gapSeconds = /[.!?।]$/.test(word) ? 0.35 : /[,;:]$/.test(word) ? 0.15 : 0.06;
+    blocks.push(new Float32Array(Math.round((gapSeconds / rateFactor) * SAMPLE_RATE)));
+  }
+  return blocks;
+};
+
+const toPcm16 = (blocks: Float32Array[]): Uint8Array => {
+  const total = blocks.reduce((sum, b) => sum + b.length, 0);
+  const samples = new Int16Array(total);
+  let offset = 0;
+  for (const block of blocks) {
+    for (let i = 0; i < block.length; i++) {
+      const s = Math.max(-1, Math.min(1, block[i]));
+      samples[offset++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+export const mockSpeechProvider: SpeechProvider = {
+  id: 'mock',
+  label: 'Mock (offline tones)',
+  supportsMultiSpeaker: true,
+  synthesize: async (request, signal) => {
+    signal?.throwIfAborted();
+    if (!('speakers' in request)) {
+      return toPcm16(renderTones(request.text, request.voice, request.style));
+    }
+    // Multi-speaker: voice each "Name: line" with that speaker's voice
+    const blocks: Float32Array[] = [];
+    for (const line of request.text.split('\n')) {
+      const match = request.speakers.find(s => line.startsWith(`${s.speaker}:`));
+      const voice = match?.voice ?? request.speakers[0].voice;
+      const content = match ? line.slice(match.speaker.length + 1) : line;
+      blocks.push(...renderTones(content, voice, request.style));
+    }
+    return toPcm16(blocks);
+  },
+};
+
+export const mockTextProvider: TextProvider = {
+  id: 'mock',
+  label: 'Mock (canned text)',
+  generateScript: async (topic, tone) =>
+    `Welcome! Today we are talking about ${topic}. This is a ${tone.toLowerCase()} mock script generated offline. ` +
+    `It has a few sentences so you can try pacing, chunking and playback without calling the API.`,
+  translateText: async (text, targetLanguage) => `[${targetLanguage}] ${text}`,
+  extractText: async (file) =>
+    `Mock extracted text from ${file.name}.\n\nThis paragraph stands in for the document's content while working offline.`,
+  explainPresentation: async (content) =>
+    content.kind === 'text'
+      ? `This mock presentation has ${content.text.split('\n').filter(l => l.trim()).length} slides. Here is a summary generated offline.`
+      : `This is a mock explanation of ${content.file.name}, generated offline.`,
+  transcribeAudio: async (audioBlob) => ({
+    language: 'English',
+    segments: [
+      { start: 0, end: 2.5, speaker: 'Speaker 1', text: `This is a mock transcript of ${Math.round(audioBlob.size / 1024)} KB of audio.` },
+      { start: 2.5, end: 5, speaker: 'Speaker 2', text: 'A second speaker answers so labels and seeking work offline.' },
+    ],
+  }),
+};
@@ -0,0 +1,42 @@
+import { VoiceName, DeliveryStyle, SpeechProviderId, TextProviderId, Transcript } from '../../types';
+
+export interface SpeakerVoice {
+  speaker: string;
+  voice: VoiceName;
+}
+
+/**
+ * One synthesis request, already sized to fit a single provider call.
+ * Multi-speaker requests carry `Name: line` text and a voice per speaker.
+ */
+export type SynthesisRequest =
+  | { text: string; voice: VoiceName; style?: DeliveryStyle }
+  | { text: string; speakers: SpeakerVoice[]; style?: DeliveryStyle };
+
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  label: string;
+  // Whether synthesize() accepts multi-speaker requests (Gemini: exactly two speakers)
+  supportsMultiSpeaker: boolean;
+  // Returns 16-bit mono PCM at 24kHz. Absent for providers that can only play live.
+  synthesize?: (request: SynthesisRequest, signal?: AbortSignal) => Promise<Uint8Array>;
+  // Plays speech through the speakers without producing audio data
+  speak?: (text: string, voice: VoiceName, style?: DeliveryStyle, signal?: AbortSignal) => Promise<void>;
+}
+
+// Presentation content: PPTX is pre-extracted to text client-side, PDFs are sent as files
+export type PresentationContent =
+  | { kind: 'text'; text: string }
+  | { kind: 'file'; file: File };
+
+export interface TextProvider {
+  id: TextProviderId;
+  label: string;
+  generateScript: (topic: string, tone: string, signal?: AbortSignal) => Promise<string>;
+  translateText: (text: string, targetLanguage: string, signal?: AbortSignal) => Promise<string>;
+  // Extracts text from a binary document (PDF etc.); plain text is read client-side
+  extractText: (file: File, signal?: AbortSignal) => Promise<string>;
+  explainPresentation: (content: PresentationContent, signal?: AbortSignal) => Promise<string>;
+  // Timed, speaker-labelled segments plus the detected language
+  transcribeAudio: (audioBlob: Blob, signal?: AbortSignal) => Promise<Transcript>;
+}
@@ -0,0 +1,159 @@
+// Shared request scheduler for every Gemini call: token-bucket rate limiting,
+// exponential backoff with jitter on 429/503 (honoring server retry hints),
+// AbortSignal cancellation, and retry status notifications for the UI.
+
+export interface RequestStatus {
+  label: string;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: 'rate-limited' | 'overloaded';
+}
+
+export interface ScheduleOptions {
+  // Short description shown in retry messages, e.g. "Speech"
+  label?: string;
+  signal?: AbortSignal;
+}
+
+type StatusListener = (status: RequestStatus | null) => void;
+
+const REQUESTS_PER_MINUTE = 30;
+const BURST = 5;
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60000;
+
+let tokens = BURST;
+let lastRefill = Date.now();
+const listeners = new Set<StatusListener>();
+
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError';
+
+export const abortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as the signal fires.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const refill = () => {
+  const now = Date.now();
+  tokens = Math.min(BURST, tokens + ((now - lastRefill) / 60000) * REQUESTS_PER_MINUTE);
+  lastRefill = now;
+};
+
+const acquireToken = async (signal?: AbortSignal) => {
+  while (true) {
+    refill();
+    if (tokens >= 1) {
+      tokens -= 1;
+      return;
+    }
+    await sleep(((1 - tokens) / REQUESTS_PER_MINUTE) * 60000, signal);
+  }
+};
+
+const errorText = (error: any): string => {
+  const parts = [error?.message, typeof error === 'string' ? error : ''];
+  try {
+    parts.push(JSON.stringify(error));
+  } catch {
+    // Ignore circular structures
+  }
+  return parts.filter(Boolean).join(' ');
+};
+
+const classifyError = (error: any): RequestStatus['reason'] | null => {
+  const status = error?.status ?? error?.code;
+  const text = errorText(error);
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(text)) return 'rate-limited';
+  if (status === 503 || /\b503\b|UNAVAILABLE|overloaded/i.test(text)) return 'overloaded';
+  return null;
+};
+
+/**
+ * Extracts a server-provided retry delay, e.g. `"retryDelay": "23s"` or "Please retry in 12.5s".
+ */
+const parseRetryHint = (error: any): number | null => {
+  const text = errorText(error);
+  const match = text.match(/retryDelay\\?"?\s*:\s*\\?"(\d+(?:\.\d+)?)s/i) || text.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+const backoffDelay = (attempt: number): number => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  // Jitter between 50% and 100% of the exponential delay
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+};
+
+const notify = (status: RequestStatus | null) => {
+  listeners.forEach(listener => listener(status));
+};
+
+/**
+ * Subscribes to retry status updates. The listener receives null once a retried
+ * request settles. Returns an unsubscribe function.
+ */
+export const onRequestStatus = (listener: StatusListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const formatRequestStatus = (status: RequestStatus): string => {
+  const seconds = Math.max(1, Math.round(status.delayMs / 1000));
+  const reason = status.reason === 'rate-limited' ? 'Rate limited' : 'Service busy';
+  return `${reason}. Retrying ${status.label.toLowerCase()} in ${seconds}s (attempt ${status.attempt + 1} of ${status.maxAttempts})...`;
+};
+
+/**
+ * Runs a request through the shared rate limiter, retrying 429/503 failures.
+ * The signal passed to `run` should be forwarded to the underlying fetch/SDK call.
+ */
+export const scheduleRequest = async <T>(
+  run: (signal?: AbortSignal) => Promise<T>,
+  options: ScheduleOptions = {}
+): Promise<T> => {
+  const { label = 'Request', signal } = options;
+  let retried = false;
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      await acquireToken(signal);
+      try {
+        return await run(signal);
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw signal?.aborted ? abortError() : error;
+
+        const reason = classifyError(error);
+        if (!reason || attempt >= MAX_ATTEMPTS) throw error;
+
+        // Everyone backs off together after a rate-limit response
+        if (reason === 'rate-limited') tokens = 0;
+
+        const delayMs = parseRetryHint(error) ?? backoffDelay(attempt);
+        retried = true;
+        notify({ label, attempt, maxAttempts: MAX_ATTEMPTS, delayMs, reason });
+        await sleep(delayMs, signal);
+      }
+    }
+  } finally {
+    if (retried) notify(null);
+  }
+};
@@ -0,0 +1,122 @@
+import { AudioResult, VideoResult } from '../types';
+
+// Persists generated results in IndexedDB so history survives page reloads.
+// Blob URLs are session-scoped, so we store the underlying Blob and mint a
+// fresh object URL when records are rehydrated.
+
+const DB_NAME = 'gemini-vox';
+const DB_VERSION = 1;
+const AUDIO_STORE = 'audioResults';
+const VIDEO_STORE = 'videoResults';
+
+type StoredAudioResult = Omit<AudioResult, 'blobUrl'> & { blob: Blob };
+type StoredVideoResult = Omit<VideoResult, 'videoUrl'> & { blob: Blob };
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(VIDEO_STORE)) {
+          db.createObjectStore(VIDEO_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const urlToBlob = (url: string): Promise<Blob> => fetch(url).then(r => r.blob());
+
+export const saveAudioResult = async (result: AudioResult): Promise<void> => {
+  const { blobUrl, ...rest } = result;
+  const record: StoredAudioResult = { ...rest, blob: await urlToBlob(blobUrl) };
+  await runRequest(AUDIO_STORE, 'readwrite', store => store.put(record));
+};
+
+export const saveVideoResult = async (result: VideoResult): Promise<void> => {
+  const { videoUrl, ...rest } = result;
+  const record: StoredVideoResult = { ...rest, blob: await urlToBlob(videoUrl) };
+  await runRequest(VIDEO_STORE, 'readwrite', store => store.put(record));
+};
+
+/**
+ * Loads all stored audio results, newest first, with fresh object URLs.
+ */
+export const loadAudioResults = async (): Promise<AudioResult[]> => {
+  const records = await runRequest<StoredAudioResult[]>(AUDIO_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(({ blob, ...rest }) => ({ ...rest, blobUrl: URL.createObjectURL(blob) }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Loads all stored video results, newest first, with fresh object URLs.
+ */
+export const loadVideoResults = async (): Promise<VideoResult[]> => {
+  const records = await runRequest<StoredVideoResult[]>(VIDEO_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(({ blob, ...rest }) => ({ ...rest, videoUrl: URL.createObjectURL(blob) }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const deleteAudioResult = async (id: string): Promise<void> => {
+  await runRequest(AUDIO_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const deleteVideoResult = async (id: string): Promise<void> => {
+  await runRequest(VIDEO_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearAllResults = async (): Promise<void> => {
+  await runRequest(AUDIO_STORE, 'readwrite', store => store.clear());
+  await runRequest(VIDEO_STORE, 'readwrite', store => store.clear());
+};
+
+/**
+ * Returns the origin's storage usage and quota in bytes, or null if unsupported.
+ * Also asks the browser to keep our data from being evicted under storage pressure.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  if (navigator.storage.persist) {
+    navigator.storage.persist().catch(() => { /* best effort */ });
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -7,7 +7,7 @@ export enum VoiceName {
   Aoede = 'Aoede'
 }
 
-export type AudioSourceType = 'tts' | 'recording' | 'batch';
+export type AudioSourceType = 'tts' | 'recording' | 'upload' | 'batch' | 'dialogue' | 'merge' | 'audiobook';
 
 export interface AudioResult {
   id: string;
@@ -19,6 +19,71 @@ export interface AudioResult {
   type: AudioSourceType;
   // Raw PCM data needed for MP3 conversion if available, else we rely on blob
   pcmData?: Uint8Array; 
+  // Channels interleaved in pcmData; mono when unset
+  channels?: number;
+  // Speaker name -> voice used, for multi-speaker dialogue clips
+  speakers?: Record<string, VoiceName>;
+  // Delivery directives the clip was generated with
+  style?: DeliveryStyle;
+  // Set for clips from imported batch rows
+  language?: Language;
+  filename?: string;
+  // Chapter boundaries for merged programs
+  chapters?: AudioChapter[];
+  // Sentence-level timing, used for subtitle export
+  segments?: TimedSegment[];
+  // Set for audiobook chapter narrations
+  book?: { title: string, chapter: number };
+  // Id of the result this is an edited copy of
+  editedFrom?: string;
+  // Set for recordings read from the teleprompter: the script, and the TTS
+  // clip the reading was paced against
+  script?: { text: string, referenceId?: string };
+  // Speech-to-text of the clip, with timings and speakers
+  transcript?: Transcript;
+  // Extension of the stored file when it isn't WAV, e.g. an uploaded MP4
+  fileExtension?: string;
+  // Measured once when the result is added to history
+  loudness?: LoudnessStats;
+}
+
+export interface LoudnessStats {
+  // Integrated loudness in LUFS; -Infinity for silence
+  integrated: number;
+  // Highest inter-sample peak in dBTP
+  truePeak: number;
+}
+
+export interface TimedSegment {
+  text: string;
+  // Seconds from the start of the clip
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment extends TimedSegment {
+  // As labelled by the model, e.g. "Speaker 1"; absent when it couldn't tell
+  speaker?: string;
+}
+
+export interface Transcript {
+  // Detected spoken language, as a name (e.g. "English")
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+export type TranscriptFormat = 'txt' | 'srt' | 'vtt' | 'json';
+
+export interface AudioChapter {
+  title: string;
+  // Seconds from the start of the clip
+  start: number;
+  end: number;
+}
+
+export interface DialogueTurn {
+  speaker: string;
+  text: string;
 }
 
 export interface VideoResult {
@@ -35,11 +100,166 @@ export interface VoiceOption {
   gender: 'Male' | 'Female' | 'Neutral';
 }
 
+export type SpeakingRate = 'slow' | 'normal' | 'fast';
+
+export type Emotion = 'neutral' | 'cheerful' | 'somber' | 'urgent' | 'calm' | 'excited';
+
+export type VocalIntensity = 'normal' | 'whisper' | 'loud';
+
+export interface DeliveryStyle {
+  rate: SpeakingRate;
+  emotion: Emotion;
+  intensity: VocalIntensity;
+  // Free-form direction, e.g. "like a late-night radio host"
+  instruction: string;
+}
+
 export interface VoicePreset {
   id: string;
   name: string;
   voice: VoiceName;
   musicVolume: number;
+  // Optional for presets saved before delivery styles existed
+  style?: DeliveryStyle;
+  // Optional for presets saved before MP3 settings existed
+  mp3?: Mp3Settings;
+  // Speech position in a stereo mix, -1 (left) to 1 (right)
+  speechPan?: number;
+  // Optional for presets saved before music mix settings existed
+  mix?: MusicMixSettings;
+}
+
+export type FadeCurve = 'linear' | 'equal-power' | 'exponential';
+
+export interface MusicMixSettings {
+  // Lower the music automatically while the speech is active
+  ducking: boolean;
+  // How far the music dips under speech, in dB
+  duckDepth: number;
+  // Music-only lead-in before the speech and tail after it, in seconds
+  intro: number;
+  outro: number;
+  fadeIn: number;
+  fadeOut: number;
+  fadeCurve: FadeCurve;
+  // Where playback of the music file starts, in seconds
+  musicOffset: number;
+}
+
+export type ChannelMode = 'mono' | 'stereo';
+
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32';
+
+export type AudioExportFormat = 'wav' | 'flac' | 'opus';
+
+export interface AudioExportOptions {
+  format: AudioExportFormat;
+  // WAV and FLAC only; Opus always runs at 48 kHz
+  sampleRate: number;
+  // WAV; FLAC supports pcm16 and pcm24
+  sampleFormat: WavSampleFormat;
+  // Opus, in kbps
+  opusBitrate: number;
+  channels: ChannelMode;
+  // Integrated loudness to normalize to, in LUFS; null leaves levels alone
+  loudnessTarget: number | null;
+}
+
+export interface Mp3Settings {
+  // Constant bitrate in kbps (lamejs has no VBR mode)
+  bitrate: number;
+  channels: ChannelMode;
+  // Output sample rate in Hz; the 24 kHz source is resampled when different
+  sampleRate: number;
 }
 
 export type Language = 'English' | 'Hindi' | 'Kannada' | 'Telugu' | 'Tamil' | 'Malayalam';
+
+export type SpeechProviderId = 'gemini' | 'mock' | 'browser';
+
+export type TextProviderId = 'gemini' | 'mock';
+
+export interface ProviderSettings {
+  speech: SpeechProviderId;
+  text: TextProviderId;
+}
+
+// 'estimated' spreads each request's duration over its sentences;
+// 'per-sentence' synthesizes every sentence separately to measure it exactly
+export type SentenceTiming = 'estimated' | 'per-sentence';
+
+export interface CaptionSettings {
+  timing: SentenceTiming;
+  maxCharsPerCue: number;
+  lineLength: number;
+}
+
+export interface TeleprompterSettings {
+  enabled: boolean;
+  // Scroll at a fixed reading speed, or over the length of a TTS clip
+  pace: 'wpm' | 'reference';
+  wordsPerMinute: number;
+  referenceId?: string;
+}
+
+export interface SilenceSettings {
+  // Trim dead air from the edges of new recordings / generated speech
+  trimRecordings: boolean;
+  trimSpeech: boolean;
+  // Silence kept around speech when trimming or splitting, in seconds
+  padding: number;
+  // Longest pause left inside a clip by "Shorten pauses", in seconds
+  maxPause: number;
+  // Pauses at least this long separate parts when splitting, in seconds
+  splitPause: number;
+}
+
+// Written into the ID3 tags of exported MP3s
+export interface TagSettings {
+  // Album / project name; audiobook exports use the book title instead
+  album: string;
+  // Cover art as a data: URL
+  coverImage?: string;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  index: number;
+  text: string;
+  // Per-row overrides from an imported CSV/JSON file; unset fields fall back to the job's
+  voice?: VoiceName;
+  style?: DeliveryStyle;
+  language?: Language;
+  // Translate the text into `language` before synthesis
+  translate?: boolean;
+  filename?: string;
+  status: BatchItemStatus;
+  resultId?: string;
+  error?: string;
+}
+
+export type BatchJobState = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface BatchJob {
+  id: string;
+  createdAt: number;
+  // Voice and style are captured at start so a resumed job sounds the same
+  voice: VoiceName;
+  style?: DeliveryStyle;
+  concurrency: number;
+  state: BatchJobState;
+  items: BatchItem[];
+}
+
+export type BookChapterStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BookChapter {
+  id: string;
+  title: string;
+  text: string;
+  status: BookChapterStatus;
+  // Narration in history; cleared when the chapter is edited
+  resultId?: string;
+  error?: string;
+}
@@ -1,3 +1,7 @@
+import { WavSampleFormat, FadeCurve, MusicMixSettings, LoudnessStats } from '../types';
+import { DEFAULT_MUSIC_MIX_SETTINGS } from '../constants';
+import { buildId3Tag, Id3Metadata } from './id3';
+
 /**
  * Decodes a base64 string into a Uint8Array.
  */
@@ -15,44 +19,667 @@ export const base64ToUint8Array = (base64: string): Uint8Array => {
  * Adds a WAV header to raw PCM data.
  * Gemini TTS output is typically 24kHz, 16-bit, Mono (1 channel).
  */
-export const addWavHeader = (samples: Uint8Array, sampleRate: number = 24000, numChannels: number = 1): ArrayBuffer => {
-  const buffer = new ArrayBuffer(44 + samples.length);
+const BYTES_PER_SAMPLE: Record<WavSampleFormat, number> = { pcm16: 2, pcm24: 3, float32: 4 };
+
+/**
+ * Wraps encoded samples in a WAV header. Multi-channel data is interleaved
+ * (L R L R ...). `sampleFormat` describes the samples already in `samples`
+ * (see `encodeSamples`); float WAVs get the extended fmt chunk and the fact
+ * chunk required for non-PCM formats.
+ */
+export const addWavHeader = (
+  samples: Uint8Array,
+  sampleRate: number = 24000,
+  numChannels: number = 1,
+  sampleFormat: WavSampleFormat = 'pcm16'
+): ArrayBuffer => {
+  const isFloat = sampleFormat === 'float32';
+  const bytesPerSample = BYTES_PER_SAMPLE[sampleFormat];
+  const fmtLength = isFloat ? 18 : 16;
+  // Chunks must start on even offsets; odd-length 24-bit data gets a pad byte
+  const padding = samples.length % 2;
+  const headerLength = 20 + fmtLength + (isFloat ? 12 : 0) + 8;
+  const buffer = new ArrayBuffer(headerLength + samples.length + padding);
   const view = new DataView(buffer);
 
   // RIFF identifier
   writeString(view, 0, 'RIFF');
   // file length
-  view.setUint32(4, 36 + samples.length, true);
+  view.setUint32(4, buffer.byteLength - 8, true);
   // RIFF type
   writeString(view, 8, 'WAVE');
   // format chunk identifier
   writeString(view, 12, 'fmt ');
   // format chunk length
-  view.setUint32(16, 16, true);
-  // sample format (raw)
-  view.setUint16(20, 1, true);
+  view.setUint32(16, fmtLength, true);
+  // sample format (1 = integer PCM, 3 = IEEE float)
+  view.setUint16(20, isFloat ? 3 : 1, true);
   // channel count
   view.setUint16(22, numChannels, true);
   // sample rate
   view.setUint32(24, sampleRate, true);
   // byte rate (sampleRate * blockAlign)
-  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
   // block align (channel count * bytes per sample)
-  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
   // bits per sample
-  view.setUint16(34, 16, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  let offset = 36;
+  if (isFloat) {
+    // extension size
+    view.setUint16(offset, 0, true);
+    // fact chunk: frames per channel
+    writeString(view, offset + 2, 'fact');
+    view.setUint32(offset + 6, 4, true);
+    view.setUint32(offset + 10, Math.floor(samples.length / (numChannels * bytesPerSample)), true);
+    offset += 14;
+  }
   // data chunk identifier
-  writeString(view, 36, 'data');
+  writeString(view, offset, 'data');
   // data chunk length
-  view.setUint32(40, samples.length, true);
+  view.setUint32(offset + 4, samples.length, true);
 
   // Write the PCM samples
   const uint8View = new Uint8Array(buffer);
-  uint8View.set(samples, 44);
+  uint8View.set(samples, headerLength);
 
   return buffer;
 };
 
+/**
+ * Converts 16-bit PCM bytes to floats in -1..1.
+ */
+export const pcm16ToFloat = (pcmData: Uint8Array): Float32Array => {
+  const samples = new Int16Array(pcmData.buffer, pcmData.byteOffset, pcmData.byteLength >> 1);
+  const result = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    result[i] = samples[i] / 32768;
+  }
+  return result;
+};
+
+/**
+ * Encodes float samples as little-endian 16-bit, 24-bit or 32-bit float WAV data.
+ */
+export const encodeSamples = (samples: Float32Array, sampleFormat: WavSampleFormat): Uint8Array => {
+  if (sampleFormat === 'float32') {
+    const result = new Uint8Array(samples.length * 4);
+    const view = new DataView(result.buffer);
+    samples.forEach((s, i) => view.setFloat32(i * 4, s, true));
+    return result;
+  }
+
+  const bytesPerSample = BYTES_PER_SAMPLE[sampleFormat];
+  const max = sampleFormat === 'pcm24' ? 0x7FFFFF : 0x7FFF;
+  const result = new Uint8Array(samples.length * bytesPerSample);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    const value = Math.round(s < 0 ? s * (max + 1) : s * max);
+    const offset = i * bytesPerSample;
+    result[offset] = value & 0xff;
+    result[offset + 1] = (value >> 8) & 0xff;
+    if (bytesPerSample === 3) result[offset + 2] = (value >> 16) & 0xff;
+  }
+  return result;
+};
+
+/**
+ * Splits interleaved samples into one array per channel.
+ */
+export const splitChannels = (samples: Float32Array, numChannels: number): Float32Array[] => {
+  if (numChannels === 1) return [samples];
+  const frames = Math.floor(samples.length / numChannels);
+  return Array.from({ length: numChannels }, (_, c) => {
+    const channel = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) channel[i] = samples[i * numChannels + c];
+    return channel;
+  });
+};
+
+/**
+ * Interleaves per-channel arrays (L R L R ...).
+ */
+export const interleaveChannels = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const frames = Math.min(...channels.map(c => c.length));
+  const result = new Float32Array(frames * channels.length);
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels.length; c++) result[i * channels.length + c] = channels[c][i];
+  }
+  return result;
+};
+
+/**
+ * Converts interleaved float samples between mono and stereo: mono is copied
+ * to both sides, stereo is averaged down.
+ */
+export const convertChannelCount = (samples: Float32Array, fromChannels: number, toChannels: number): Float32Array => {
+  if (fromChannels === toChannels) return samples;
+  const channels = splitChannels(samples, fromChannels);
+  if (toChannels === 1) {
+    const mono = new Float32Array(channels[0].length);
+    for (let i = 0; i < mono.length; i++) {
+      let sum = 0;
+      for (const channel of channels) sum += channel[i];
+      mono[i] = sum / channels.length;
+    }
+    return mono;
+  }
+  return interleaveChannels(Array.from({ length: toChannels }, (_, c) => channels[Math.min(c, channels.length - 1)]));
+};
+
+/**
+ * `convertChannelCount` for interleaved 16-bit PCM.
+ */
+export const convertPcmChannels = (pcmData: Uint8Array, fromChannels: number, toChannels: number): Uint8Array => {
+  if (fromChannels === toChannels) return pcmData;
+  return encodeSamples(convertChannelCount(pcm16ToFloat(pcmData), fromChannels, toChannels), 'pcm16');
+};
+
+/**
+ * Flattens a rendered AudioBuffer into interleaved 16-bit PCM.
+ */
+export const audioBufferToPcm = (buffer: AudioBuffer): Uint8Array => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return encodeSamples(interleaveChannels(channels), 'pcm16');
+};
+
+// Windowed-sinc kernel: zero crossings per side and table entries per crossing
+const SINC_ZERO_CROSSINGS = 16;
+const SINC_RESOLUTION = 512;
+// Passband edge as a fraction of the lower Nyquist frequency
+const RESAMPLE_ROLLOFF = 0.95;
+
+let sincTable: Float32Array | null = null;
+
+// One side of a Blackman-windowed sinc, indexed by |x| * SINC_RESOLUTION
+const getSincTable = (): Float32Array => {
+  if (!sincTable) {
+    const size = SINC_ZERO_CROSSINGS * SINC_RESOLUTION;
+    sincTable = new Float32Array(size + 2);
+    for (let i = 0; i <= size; i++) {
+      const x = i / SINC_RESOLUTION;
+      const sinc = i === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const phase = (Math.PI * x) / SINC_ZERO_CROSSINGS;
+      sincTable[i] = sinc * (0.42 + 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase));
+    }
+  }
+  return sincTable;
+};
+
+/**
+ * Band-limited resampling with a windowed-sinc filter. The cutoff sits just
+ * below the lower of the two Nyquist frequencies, so downsampling doesn't
+ * alias and upsampling doesn't image.
+ */
+export const resampleSamples = (input: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return input.slice();
+  const table = getSincTable();
+  const scale = Math.min(1, toRate / fromRate) * RESAMPLE_ROLLOFF;
+  const step = fromRate / toRate;
+  const halfWidth = SINC_ZERO_CROSSINGS / scale;
+  const tableScale = scale * SINC_RESOLUTION;
+  const tableEnd = SINC_ZERO_CROSSINGS * SINC_RESOLUTION;
+
+  const output = new Float32Array(Math.ceil((input.length * toRate) / fromRate));
+  for (let n = 0; n < output.length; n++) {
+    const center = n * step;
+    const first = Math.max(0, Math.ceil(center - halfWidth));
+    const last = Math.min(input.length - 1, Math.floor(center + halfWidth));
+    let sum = 0;
+    let weight = 0;
+    for (let i = first; i <= last; i++) {
+      const position = Math.abs(i - center) * tableScale;
+      if (position >= tableEnd) continue;
+      const index = position | 0;
+      const k = table[index] + (table[index + 1] - table[index]) * (position - index);
+      sum += input[i] * k;
+      weight += k;
+    }
+    // Normalising keeps unity gain, including where the kernel is cut off at the edges
+    output[n] = weight > 0 ? sum / weight : 0;
+  }
+  return output;
+};
+
+export interface WavCuePoint {
+  // Position in sample frames from the start of the data chunk
+  sampleOffset: number;
+  label: string;
+}
+
+/**
+ * Appends a `cue ` chunk and a LIST/adtl chunk of labels to a WAV file so
+ * editors (Audacity, Reaper, Adobe Audition) show the points as markers.
+ */
+export const addWavCuePoints = (wav: ArrayBuffer, cues: WavCuePoint[]): ArrayBuffer => {
+  if (cues.length === 0) return wav;
+  const encoder = new TextEncoder();
+  const labels = cues.map(cue => encoder.encode(cue.label));
+
+  const cueChunkSize = 4 + cues.length * 24;
+  // Each labl sub-chunk: id + NUL-terminated text, padded to an even length
+  const lablSizes = labels.map(bytes => 4 + bytes.length + 1);
+  const listChunkSize = 4 + lablSizes.reduce((sum, size) => sum + 8 + size + (size % 2), 0);
+
+  const buffer = new ArrayBuffer(wav.byteLength + 8 + cueChunkSize + 8 + listChunkSize);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(new Uint8Array(wav), 0);
+  const view = new DataView(buffer);
+  let offset = wav.byteLength;
+
+  writeString(view, offset, 'cue ');
+  view.setUint32(offset + 4, cueChunkSize, true);
+  view.setUint32(offset + 8, cues.length, true);
+  offset += 12;
+  cues.forEach((cue, i) => {
+    view.setUint32(offset, i + 1, true); // cue point id
+    view.setUint32(offset + 4, cue.sampleOffset, true); // play order position
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true); // chunk start
+    view.setUint32(offset + 16, 0, true); // block start
+    view.setUint32(offset + 20, cue.sampleOffset, true);
+    offset += 24;
+  });
+
+  writeString(view, offset, 'LIST');
+  view.setUint32(offset + 4, listChunkSize, true);
+  writeString(view, offset + 8, 'adtl');
+  offset += 12;
+  labels.forEach((label, i) => {
+    writeString(view, offset, 'labl');
+    view.setUint32(offset + 4, lablSizes[i], true);
+    view.setUint32(offset + 8, i + 1, true);
+    bytes.set(label, offset + 12);
+    offset += 8 + lablSizes[i] + (lablSizes[i] % 2);
+  });
+
+  // RIFF length covers everything after the first 8 bytes
+  view.setUint32(4, buffer.byteLength - 8, true);
+  return buffer;
+};
+
+// EBU R128 allows -1 dBTP; lossy encoders can overshoot a little past that
+export const TRUE_PEAK_CEILING = -1;
+// BS.1770 gating: 400 ms blocks every 100 ms, -70 LUFS absolute gate and a
+// relative gate 10 LU below the loudness of the blocks that pass it
+const LOUDNESS_BLOCK = 0.4;
+const LOUDNESS_STEP = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+// Taps on each side of the true-peak interpolator
+const TRUE_PEAK_TAPS = 8;
+// Limiter attack (lookahead) and release, in seconds
+const LIMITER_LOOKAHEAD = 0.005;
+const LIMITER_RELEASE = 0.1;
+// Limiting lowers loudness, so normalization re-measures and adds make-up
+// gain until it lands within this many LU of the target
+const NORMALIZE_TOLERANCE = 0.5;
+const NORMALIZE_PASSES = 3;
+
+const biquad = (input: Float32Array, b: number[], a: number[]): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+/**
+ * BS.1770 K-weighting: a high-shelf "head" filter followed by the RLB
+ * high-pass. Coefficients are derived for any sample rate rather than using
+ * the 48 kHz tables from the spec.
+ */
+const kWeight = (samples: Float32Array, sampleRate: number): Float32Array => {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = biquad(
+    samples,
+    [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+  );
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  return biquad(shelf, [1, -2, 1], [1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]);
+};
+
+let truePeakKernels: Float32Array[] | null = null;
+
+/**
+ * For each sample, the largest magnitude between it and the next one, found
+ * by 4x oversampling with a windowed-sinc interpolator (BS.1770 Annex 2).
+ */
+const interSamplePeaks = (samples: Float32Array): Float32Array => {
+  if (!truePeakKernels) {
+    // One kernel per fractional position 1/4, 2/4, 3/4
+    truePeakKernels = [1, 2, 3].map(phase => {
+      const kernel = new Float32Array(TRUE_PEAK_TAPS * 2);
+      for (let k = 0; k < kernel.length; k++) {
+        const x = k - TRUE_PEAK_TAPS + 1 - phase / 4;
+        const window = 0.5 + 0.5 * Math.cos(Math.PI * x / TRUE_PEAK_TAPS);
+        kernel[k] = (Math.sin(Math.PI * x) / (Math.PI * x)) * window;
+      }
+      return kernel;
+    });
+  }
+  const peaks = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    let peak = Math.abs(samples[i]);
+    for (const kernel of truePeakKernels) {
+      let sum = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        const j = i + k - TRUE_PEAK_TAPS + 1;
+        if (j >= 0 && j < samples.length) sum += samples[j] * kernel[k];
+      }
+      peak = Math.max(peak, Math.abs(sum));
+    }
+    peaks[i] = peak;
+  }
+  return peaks;
+};
+
+const toDb = (gain: number): number => 20 * Math.log10(gain);
+
+/**
+ * Measures integrated loudness (ITU-R BS.1770-4 / EBU R128, gated) and true
+ * peak of interleaved float samples. All channels are weighted equally, which
+ * is right for mono and stereo. Clips shorter than one 400 ms block are
+ * measured as a single block.
+ */
+export const measureLoudness = (samples: Float32Array, sampleRate: number, numChannels: number = 1): LoudnessStats => {
+  const channels = splitChannels(samples, numChannels);
+  const frames = channels[0]?.length ?? 0;
+
+  let peak = 0;
+  channels.forEach(channel => {
+    interSamplePeaks(channel).forEach(p => { if (p > peak) peak = p; });
+  });
+
+  // Running sums of squared K-weighted samples make each block O(1)
+  const energy = new Float64Array(frames + 1);
+  channels.forEach(channel => {
+    const weighted = kWeight(channel, sampleRate);
+    let sum = 0;
+    for (let i = 0; i < frames; i++) {
+      sum += weighted[i] * weighted[i];
+      energy[i + 1] += sum;
+    }
+  });
+
+  const block = Math.min(frames, Math.round(LOUDNESS_BLOCK * sampleRate));
+  const step = Math.max(1, Math.round(LOUDNESS_STEP * sampleRate));
+  const blocks: number[] = [];
+  for (let start = 0; block > 0 && start + block <= frames; start += step) {
+    blocks.push((energy[start + block] - energy[start]) / block);
+  }
+  const loudness = (z: number) => -0.691 + 10 * Math.log10(z);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const aboveAbsolute = blocks.filter(z => z > 0 && loudness(z) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return { integrated: -Infinity, truePeak: toDb(peak) };
+  const relativeGate = loudness(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter(z => loudness(z) > relativeGate);
+
+  return { integrated: loudness(mean(gated)), truePeak: toDb(peak) };
+};
+
+/**
+ * `measureLoudness` for interleaved 16-bit PCM.
+ */
+export const measurePcmLoudness = (pcmData: Uint8Array, sampleRate: number = 24000, numChannels: number = 1): LoudnessStats => {
+  return measureLoudness(pcm16ToFloat(pcmData), sampleRate, numChannels);
+};
+
+/**
+ * Keeps interleaved samples under a true-peak ceiling with a linked
+ * lookahead limiter: the gain ramps down over `LIMITER_LOOKAHEAD` before each
+ * overshoot and recovers over `LIMITER_RELEASE`. Returns the input untouched
+ * when nothing exceeds the ceiling.
+ */
+const limitTruePeak = (samples: Float32Array, sampleRate: number, numChannels: number, ceilingDb: number): Float32Array => {
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const channels = splitChannels(samples, numChannels);
+  const frames = channels[0]?.length ?? 0;
+
+  // Gain each frame needs on its own; the peak between two frames limits both
+  const required = new Float32Array(frames).fill(1);
+  let overshoot = false;
+  channels.forEach(channel => {
+    interSamplePeaks(channel).forEach((p, i) => {
+      if (p <= ceiling) return;
+      overshoot = true;
+      const gain = ceiling / p;
+      required[i] = Math.min(required[i], gain);
+      if (i + 1 < frames) required[i + 1] = Math.min(required[i + 1], gain);
+    });
+  });
+  if (!overshoot) return samples;
+
+  // Minimum over the coming lookahead window (monotonic deque)...
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+  const windowMin = new Float32Array(frames);
+  const deque = new Int32Array(frames);
+  let head = 0, tail = 0;
+  for (let i = frames - 1; i >= 0; i--) {
+    while (tail > head && required[deque[tail - 1]] >= required[i]) tail--;
+    deque[tail++] = i;
+    while (deque[head] >= i + lookahead) head++;
+    windowMin[i] = required[deque[head]];
+  }
+
+  // ...averaged over the past window, so every frame in reach of an overshoot
+  // is at or below its required gain, then released smoothly
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE * sampleRate));
+  const output = new Float32Array(samples.length);
+  let sum = 0;
+  let gain = 1;
+  for (let i = 0; i < frames; i++) {
+    sum += windowMin[i] - (i >= lookahead ? windowMin[i - lookahead] : 1);
+    const smoothed = Math.min(1, (sum + lookahead) / lookahead);
+    gain = Math.min(smoothed, gain + (1 - gain) * release);
+    for (let c = 0; c < numChannels; c++) {
+      output[i * numChannels + c] = samples[i * numChannels + c] * gain;
+    }
+  }
+  return output;
+};
+
+/**
+ * Scales interleaved samples to an integrated loudness target (e.g. -16 LUFS
+ * for podcasts, -23 LUFS for EBU R128 broadcast) and limits true peaks to
+ * `ceilingDb`. Very peaky clips can still end up slightly under target after
+ * `NORMALIZE_PASSES` rounds of make-up gain. Silence is returned unchanged.
+ */
+export const normalizeLoudness = (
+  samples: Float32Array,
+  sampleRate: number,
+  numChannels: number,
+  targetLufs: number,
+  ceilingDb: number = TRUE_PEAK_CEILING
+): Float32Array => {
+  const { integrated } = measureLoudness(samples, sampleRate, numChannels);
+  if (!isFinite(integrated)) return samples;
+  let gainDb = targetLufs - integrated;
+  let output = samples;
+  for (let pass = 0; pass < NORMALIZE_PASSES; pass++) {
+    const gain = Math.pow(10, gainDb / 20);
+    output = limitTruePeak(samples.map(s => s * gain), sampleRate, numChannels, ceilingDb);
+    const shortfall = targetLufs - measureLoudness(output, sampleRate, numChannels).integrated;
+    if (shortfall < NORMALIZE_TOLERANCE) break;
+    gainDb += shortfall;
+  }
+  return output;
+};
+
+/**
+ * `normalizeLoudness` for interleaved 16-bit PCM.
+ */
+export const normalizePcmLoudness = (pcmData: Uint8Array, sampleRate: number, numChannels: number, targetLufs: number): Uint8Array => {
+  return encodeSamples(normalizeLoudness(pcm16ToFloat(pcmData), sampleRate, numChannels, targetLufs), 'pcm16');
+};
+
+export interface VoiceRegion {
+  // Seconds from the start of the clip
+  start: number;
+  end: number;
+}
+
+export interface VoiceActivityOptions {
+  // Pauses shorter than this don't end a region (gaps between words)
+  minSilence?: number;
+  // Blips shorter than this (clicks, breaths) aren't speech
+  minSpeech?: number;
+}
+
+// Analysis frame length, in seconds
+const VAD_FRAME = 0.02;
+// Frames quieter than this are always silence
+const VAD_SILENCE_DB = -60;
+// Speech sits at least this far above the background noise...
+const VAD_NOISE_MARGIN_DB = 10;
+// ...and the threshold is never closer than this to the loudest frame
+const VAD_PEAK_MARGIN_DB = 25;
+
+/**
+ * Energy-based voice activity detection. The threshold adapts to the clip:
+ * it sits above the noise floor (the 10th-percentile frame level) so room
+ * noise in recordings doesn't count as speech, while digital silence in TTS
+ * output falls back to a fixed -60 dBFS. Returns the regions with speech in
+ * them, in order.
+ */
+export const detectVoiceActivity = (
+  pcmData: Uint8Array,
+  sampleRate: number = 24000,
+  numChannels: number = 1,
+  { minSilence = 0.25, minSpeech = 0.08 }: VoiceActivityOptions = {}
+): VoiceRegion[] => {
+  const samples = convertChannelCount(pcm16ToFloat(pcmData), numChannels, 1);
+  const frameLength = Math.max(1, Math.round(VAD_FRAME * sampleRate));
+  const frameCount = Math.floor(samples.length / frameLength);
+  if (frameCount === 0) return [];
+  const frameSeconds = frameLength / sampleRate;
+
+  const levels = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameLength; i < (f + 1) * frameLength; i++) sum += samples[i] * samples[i];
+    levels[f] = 10 * Math.log10(sum / frameLength + 1e-12);
+  }
+  const sorted = Float32Array.from(levels).sort();
+  const noiseFloor = sorted[Math.floor(frameCount * 0.1)];
+  const peak = sorted[frameCount - 1];
+  const threshold = Math.min(Math.max(noiseFloor + VAD_NOISE_MARGIN_DB, VAD_SILENCE_DB), peak - VAD_PEAK_MARGIN_DB);
+
+  const regions: VoiceRegion[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    if (levels[f] <= threshold) continue;
+    const start = f * frameSeconds;
+    const last = regions[regions.length - 1];
+    if (last && start - last.end < minSilence) {
+      last.end = start + frameSeconds;
+    } else {
+      regions.push({ start, end: start + frameSeconds });
+    }
+  }
+  return regions.filter(r => r.end - r.start >= minSpeech);
+};
+
+/**
+ * Concatenates raw PCM byte arrays (same rate/format) into one contiguous buffer.
+ */
+export const concatPcm = (chunks: Uint8Array[]): Uint8Array => {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Creates a block of 16-bit PCM silence of the given duration.
+ */
+export const createSilence = (seconds: number, sampleRate: number = 24000, numChannels: number = 1): Uint8Array => {
+  const frames = Math.max(0, Math.round(seconds * sampleRate));
+  return new Uint8Array(frames * numChannels * 2);
+};
+
+/**
+ * Duration in seconds of 16-bit PCM data.
+ */
+export const getPcmDuration = (pcmData: Uint8Array, sampleRate: number = 24000, numChannels: number = 1): number => {
+  return pcmData.length / (sampleRate * numChannels * 2);
+};
+
+/**
+ * Decodes any browser-supported audio blob (WAV, WebM, MP3...) into interleaved
+ * 16-bit PCM, resampled to the given rate so it can be combined with Gemini TTS
+ * output. Mono by default; stereo keeps (or upmixes to) two channels.
+ * Decoding happens on an offline context at the target rate, so long files are
+ * never held in memory at their original rate, and channels are mixed straight
+ * into the 16-bit output.
+ */
+export const decodeToPcm = async (blob: Blob, sampleRate: number = 24000, numChannels: number = 1): Promise<Uint8Array> => {
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await blob.arrayBuffer());
+  const sources = Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c));
+  const output = new Int16Array(decoded.length * numChannels);
+  for (let i = 0; i < decoded.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      let value: number;
+      if (numChannels === 1) {
+        value = 0;
+        for (const source of sources) value += source[i];
+        value /= sources.length;
+      } else {
+        value = sources[Math.min(c, sources.length - 1)][i];
+      }
+      const s = Math.max(-1, Math.min(1, value));
+      output[i * numChannels + c] = Math.round(s < 0 ? s * 0x8000 : s * 0x7FFF);
+    }
+  }
+  return new Uint8Array(output.buffer);
+};
+
+/**
+ * Reads a media file's duration from its metadata, without decoding it.
+ * Resolves to null when the browser can't tell (e.g. some WebM recordings).
+ */
+export const getMediaDuration = (blob: Blob): Promise<number | null> => {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(blob);
+    const media = document.createElement(blob.type.startsWith('video/') ? 'video' : 'audio');
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      media.removeAttribute('src');
+      resolve(duration);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => finish(isFinite(media.duration) ? media.duration : null);
+    media.onerror = () => finish(null);
+    media.src = url;
+  });
+};
+
+/**
+ * Resamples interleaved 16-bit PCM with `resampleSamples`, one channel at a time.
+ */
+export const resamplePcm = (pcmData: Uint8Array, fromRate: number, toRate: number, numChannels: number = 1): Uint8Array => {
+  if (fromRate === toRate) return pcmData;
+  const channels = splitChannels(pcm16ToFloat(pcmData), numChannels).map(c => resampleSamples(c, fromRate, toRate));
+  return encodeSamples(interleaveChannels(channels), 'pcm16');
+};
+
 const writeString = (view: DataView, offset: number, string: string) => {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
@@ -60,28 +687,32 @@ const writeString = (view: DataView, offset: number, string: string) => {
 };
 
 /**
- * Converts PCM data (Int16) to MP3 using lamejs.
- * Requires lamejs to be loaded in global scope.
+ * Converts PCM data (Int16, mono or interleaved stereo) to MP3 using lamejs, prefixed with an ID3v2.3 tag
+ * when `tags` is given. Requires lamejs to be loaded in global scope.
  */
-export const convertToMp3 = (pcmData: Uint8Array, sampleRate: number = 24000, numChannels: number = 1): Blob => {
+export const convertToMp3 = (pcmData: Uint8Array, sampleRate: number = 24000, numChannels: number = 1, tags?: Id3Metadata): Blob => {
   // @ts-ignore
   if (typeof lamejs === 'undefined') {
     console.warn("lamejs not found. Returning WAV blob instead.");
     return new Blob([addWavHeader(pcmData, sampleRate, numChannels)], { type: 'audio/wav' });
   }
 
-  // Convert Uint8Array bytes to Int16Array samples
-  const samples = new Int16Array(pcmData.buffer);
+  // Convert Uint8Array bytes to Int16Array samples, one array per channel
+  const interleaved = new Int16Array(pcmData.buffer, pcmData.byteOffset, pcmData.byteLength >> 1);
+  const channels = numChannels === 1 ? [interleaved] : [0, 1].map(c => {
+    const channel = new Int16Array(Math.floor(interleaved.length / 2));
+    for (let i = 0; i < channel.length; i++) channel[i] = interleaved[i * 2 + c];
+    return channel;
+  });
 
   // @ts-ignore
-  const mp3encoder = new lamejs.Mp3Encoder(numChannels, sampleRate, 128); // 128kbps
+  const mp3encoder = new lamejs.Mp3Encoder(channels.length, sampleRate, 128); // 128kbps
   const mp3Data = [];
   
   // Encode
   const blockSize = 1152;
-  for (let i = 0; i < samples.length; i += blockSize) {
-    const sampleChunk = samples.subarray(i, i + blockSize);
-    const mp3buf = mp3encoder.encodeBuffer(sampleChunk);
+  for (let i = 0; i < channels[0].length; i += blockSize) {
+    const mp3buf = mp3encoder.encodeBuffer(...channels.map(c => c.subarray(i, i + blockSize)));
     if (mp3buf.length > 0) {
       mp3Data.push(mp3buf);
     }
@@ -92,59 +723,170 @@ export const convertToMp3 = (pcmData: Uint8Array, sampleRate: number = 24000, nu
     mp3Data.push(mp3buf);
   }
 
+  if (tags) {
+    mp3Data.unshift(buildId3Tag(tags));
+  }
+
   return new Blob(mp3Data, { type: 'audio/mp3' });
 };
 
+export interface MixedAudio {
+  blob: Blob;
+  // Interleaved stereo 16-bit PCM at 24kHz
+  pcmData: Uint8Array;
+  channels: number;
+  // Where the speech begins in the mix (the music intro), in seconds
+  speechStart: number;
+}
+
+// Control points per second in the music gain automation
+const MIX_CURVE_RATE = 100;
+// Speech louder than this (RMS per control point) counts as active
+const DUCK_THRESHOLD_DB = -45;
+// The music starts dipping this long before speech and stays down this long
+// after it, so it doesn't pump between words
+const DUCK_LOOKAHEAD = 0.15;
+const DUCK_HOLD = 0.4;
+const DUCK_ATTACK = 0.08;
+const DUCK_RELEASE = 0.6;
+
+/**
+ * Maps fade progress (0-1) to gain. Exponential covers a 60 dB range, so it
+ * sounds even to the ear where linear seems to drop off suddenly at the end.
+ */
+export const fadeGain = (curve: FadeCurve, progress: number): number => {
+  const x = Math.max(0, Math.min(1, progress));
+  switch (curve) {
+    case 'linear': return x;
+    case 'exponential': return (Math.pow(1000, x) - 1) / 999;
+    default: return Math.sin(x * Math.PI / 2);
+  }
+};
+
 /**
- * Mixes speech audio with background music.
- * Loops music if speech is longer.
+ * Builds the music gain automation for a mix, at `MIX_CURVE_RATE` points per
+ * second: the base volume, ducked under speech by an envelope follower run
+ * over `speech` (mono, starting at `speechStart`), and shaped by the fades.
  */
-export const mixAudio = async (speechBlob: Blob, musicBlob: Blob, musicVolume: number): Promise<Blob> => {
+export const buildMusicGainCurve = (
+  speech: Float32Array,
+  speechRate: number,
+  speechStart: number,
+  duration: number,
+  musicVolume: number,
+  mix: MusicMixSettings
+): Float32Array => {
+  const points = Math.max(2, Math.ceil(duration * MIX_CURVE_RATE) + 1);
+  const curve = new Float32Array(points);
+
+  // Which control points have speech under them
+  const active = new Uint8Array(points);
+  if (mix.ducking) {
+    const window = Math.max(1, Math.round(speechRate / MIX_CURVE_RATE));
+    for (let k = 0; k < points; k++) {
+      const from = Math.round((k / MIX_CURVE_RATE - speechStart) * speechRate);
+      if (from + window <= 0 || from >= speech.length) continue;
+      let sum = 0;
+      for (let i = Math.max(0, from); i < Math.min(speech.length, from + window); i++) sum += speech[i] * speech[i];
+      const rms = Math.sqrt(sum / window);
+      if (20 * Math.log10(rms + 1e-10) > DUCK_THRESHOLD_DB) active[k] = 1;
+    }
+  }
+
+  const lookahead = Math.round(DUCK_LOOKAHEAD * MIX_CURVE_RATE);
+  const hold = Math.round(DUCK_HOLD * MIX_CURVE_RATE);
+  const attack = Math.exp(-1 / (DUCK_ATTACK * MIX_CURVE_RATE));
+  const release = Math.exp(-1 / (DUCK_RELEASE * MIX_CURVE_RATE));
+  let nextActive = Infinity;
+  let lastActive = -Infinity;
+  const nextActiveAt = new Float64Array(points);
+  for (let k = points - 1; k >= 0; k--) {
+    if (active[k]) nextActive = k;
+    nextActiveAt[k] = nextActive;
+  }
+
+  let reduction = 0; // dB
+  for (let k = 0; k < points; k++) {
+    if (active[k]) lastActive = k;
+    const ducked = nextActiveAt[k] - k <= lookahead || k - lastActive <= hold;
+    const target = ducked ? Math.max(0, mix.duckDepth) : 0;
+    const coefficient = target > reduction ? attack : release;
+    reduction = target + (reduction - target) * coefficient;
+
+    const t = k / MIX_CURVE_RATE;
+    const fadeIn = mix.fadeIn > 0 ? fadeGain(mix.fadeCurve, t / mix.fadeIn) : 1;
+    const fadeOut = mix.fadeOut > 0 ? fadeGain(mix.fadeCurve, (duration - t) / mix.fadeOut) : 1;
+    curve[k] = musicVolume * Math.pow(10, -reduction / 20) * fadeIn * fadeOut;
+  }
+  return curve;
+};
+
+/**
+ * Mixes speech audio with optional background music into a stereo clip.
+ * With music, the speech is framed by `mix.intro` and `mix.outro` of music
+ * alone, the bed fades in and out and (optionally) ducks under the speech.
+ * Music loops if it's shorter than the mix and starts `mix.musicOffset`
+ * seconds in, keeping a stereo bed's left/right image; `speechPan` places the
+ * voice from -1 (left) to 1 (right).
+ */
+export const mixAudio = async (
+  speechBlob: Blob,
+  musicBlob: Blob | null,
+  musicVolume: number,
+  speechPan: number = 0,
+  mix: MusicMixSettings = DEFAULT_MUSIC_MIX_SETTINGS
+): Promise<MixedAudio> => {
   const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
   const ctx = new AudioContextClass();
   
   const speechBuffer = await ctx.decodeAudioData(await speechBlob.arrayBuffer());
-  const musicBuffer = await ctx.decodeAudioData(await musicBlob.arrayBuffer());
+  const musicBuffer = musicBlob ? await ctx.decodeAudioData(await musicBlob.arrayBuffer()) : null;
+  ctx.close();
   
-  // Use speech duration for the final clip
-  const duration = speechBuffer.duration;
+  // Padding only makes sense when there's music to fill it
+  const speechStart = musicBuffer ? Math.max(0, mix.intro) : 0;
+  const duration = speechStart + speechBuffer.duration + (musicBuffer ? Math.max(0, mix.outro) : 0);
   const sampleRate = 24000; // Standardize to 24kHz like Gemini output or ctx.sampleRate
   
   // Create offline context for rendering
-  const offlineCtx = new OfflineAudioContext(1, sampleRate * duration, sampleRate);
+  const offlineCtx = new OfflineAudioContext(2, Math.ceil(sampleRate * duration), sampleRate);
   
-  // Setup Speech Source
+  // Setup Speech Source; the panner turns mono speech into a positioned stereo signal
   const speechSource = offlineCtx.createBufferSource();
   speechSource.buffer = speechBuffer;
-  speechSource.connect(offlineCtx.destination);
-  speechSource.start();
+  const panner = offlineCtx.createStereoPanner();
+  panner.pan.value = Math.max(-1, Math.min(1, speechPan));
+  speechSource.connect(panner);
+  panner.connect(offlineCtx.destination);
+  speechSource.start(speechStart);
   
   // Setup Music Source
-  const musicSource = offlineCtx.createBufferSource();
-  musicSource.buffer = musicBuffer;
-  musicSource.loop = true;
-  
-  const musicGain = offlineCtx.createGain();
-  musicGain.gain.value = musicVolume;
-  
-  musicSource.connect(musicGain);
-  musicGain.connect(offlineCtx.destination);
-  musicSource.start();
-  
-  const renderedBuffer = await offlineCtx.startRendering();
-  
-  // Convert AudioBuffer to WAV
-  const data = renderedBuffer.getChannelData(0);
-  // Float32 to Int16
-  const pcmLength = data.length;
-  const pcmData = new Int16Array(pcmLength);
-  for (let i = 0; i < pcmLength; i++) {
-    let s = Math.max(-1, Math.min(1, data[i]));
-    pcmData[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  if (musicBuffer) {
+    const musicSource = offlineCtx.createBufferSource();
+    musicSource.buffer = musicBuffer;
+    musicSource.loop = true;
+    
+    // The ducking sidechain listens to a mono fold-down of the speech
+    const speech = new Float32Array(speechBuffer.length);
+    for (let c = 0; c < speechBuffer.numberOfChannels; c++) {
+      const data = speechBuffer.getChannelData(c);
+      for (let i = 0; i < data.length; i++) speech[i] += data[i] / speechBuffer.numberOfChannels;
+    }
+    const musicGain = offlineCtx.createGain();
+    musicGain.gain.setValueCurveAtTime(
+      buildMusicGainCurve(speech, speechBuffer.sampleRate, speechStart, duration, musicVolume, mix),
+      0,
+      duration
+    );
+    
+    musicSource.connect(musicGain);
+    musicGain.connect(offlineCtx.destination);
+    musicSource.start(0, Math.max(0, mix.musicOffset) % musicBuffer.duration);
   }
   
-  const wavBuffer = addWavHeader(new Uint8Array(pcmData.buffer), sampleRate, 1);
-  return new Blob([wavBuffer], { type: 'audio/wav' });
+  const pcmData = audioBufferToPcm(await offlineCtx.startRendering());
+  const wavBuffer = addWavHeader(pcmData, sampleRate, 2);
+  return { blob: new Blob([wavBuffer], { type: 'audio/wav' }), pcmData, channels: 2, speechStart };
 };
 
 /**
@@ -159,7 +901,7 @@ export const generateSynthesizedTrack = async (type: 'ambient' | 'upbeat' | 'lof
   const t = offlineCtx.currentTime;
 
   if (type === 'ambient') {
-    // Generate simple drone
+    // Generate simple drone, one voice to each side
     const osc1 = offlineCtx.createOscillator();
     osc1.type = 'sine';
     osc1.frequency.value = 110; // A2
@@ -171,8 +913,12 @@ export const generateSynthesizedTrack = async (type: 'ambient' | 'upbeat' | 'lof
     const gain = offlineCtx.createGain();
     gain.gain.value = 0.1;
 
-    osc1.connect(gain);
-    osc2.connect(gain);
+    const pan1 = new StereoPannerNode(offlineCtx, { pan: -0.5 });
+    const pan2 = new StereoPannerNode(offlineCtx, { pan: 0.5 });
+    osc1.connect(pan1);
+    osc2.connect(pan2);
+    pan1.connect(gain);
+    pan2.connect(gain);
     gain.connect(offlineCtx.destination);
     
     osc1.start();
@@ -181,12 +927,15 @@ export const generateSynthesizedTrack = async (type: 'ambient' | 'upbeat' | 'lof
      // Pink noise-ish + chord
      const bufferSize = sampleRate * duration;
      const buffer = offlineCtx.createBuffer(2, bufferSize, sampleRate);
-     const data = buffer.getChannelData(0);
-     for (let i = 0; i < bufferSize; i++) {
-        const white = Math.random() * 2 - 1;
-        data[i] = (lastOut + (0.02 * white)) / 1.02;
-        lastOut = data[i];
-        data[i] *= 0.05; // Quiet vinyl crackle
+     // Independent noise per side gives a wide stereo texture
+     for (let channel = 0; channel < 2; channel++) {
+       const data = buffer.getChannelData(channel);
+       for (let i = 0; i < bufferSize; i++) {
+          const white = Math.random() * 2 - 1;
+          data[i] = (lastOut + (0.02 * white)) / 1.02;
+          lastOut = data[i];
+          data[i] *= 0.05; // Quiet vinyl crackle
+       }
      }
      const noiseSrc = offlineCtx.createBufferSource();
      noiseSrc.buffer = buffer;
@@ -231,20 +980,8 @@ export const generateSynthesizedTrack = async (type: 'ambient' | 'upbeat' | 'lof
 
   const renderedBuffer = await offlineCtx.startRendering();
   
-  // Encode to WAV
-  const length = renderedBuffer.length * 2; // 2 bytes per sample
-  const view = new DataView(new ArrayBuffer(44 + length));
-  // Standard WAV Header for 16bit mono (simplify render to mono for file size if needed, but we did stereo)
-  // Actually, helper only supports mono mix currently in other functions.
-  // Let's grab just channel 0 for simplicity.
-  const data = renderedBuffer.getChannelData(0);
-  const pcmData = new Int16Array(data.length);
-  for (let i = 0; i < data.length; i++) {
-    let s = Math.max(-1, Math.min(1, data[i]));
-    pcmData[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  
-  const wavBytes = addWavHeader(new Uint8Array(pcmData.buffer), sampleRate, 1);
+  // Encode to a stereo WAV
+  const wavBytes = addWavHeader(audioBufferToPcm(renderedBuffer), sampleRate, 2);
   return new Blob([wavBytes], { type: 'audio/wav' });
 };
 
@@ -0,0 +1,248 @@
+import { VoiceName, Language, DeliveryStyle } from '../types';
+import { VOICES, LANGUAGES, SPEAKING_RATES, EMOTIONS, VOCAL_INTENSITIES, DEFAULT_DELIVERY_STYLE, StyleOption } from '../constants';
+
+export interface BatchImportRow {
+  // 1-based row number in the source file (CSV rows count the header)
+  row: number;
+  text: string;
+  voice?: VoiceName;
+  language?: Language;
+  translate: boolean;
+  style?: DeliveryStyle;
+  filename?: string;
+  errors: string[];
+}
+
+export interface BatchImportResult {
+  rows: BatchImportRow[];
+  // Columns that were present but not understood
+  ignoredColumns: string[];
+}
+
+// Accepted column names (lower-cased) for each field
+const COLUMN_ALIASES: Record<string, string[]> = {
+  text: ['text', 'prompt', 'script', 'line'],
+  voice: ['voice', 'voicename', 'speaker'],
+  language: ['language', 'lang', 'target_language', 'targetlanguage'],
+  translate: ['translate', 'auto_translate', 'autotranslate'],
+  rate: ['rate', 'speed', 'speaking_rate'],
+  emotion: ['emotion', 'tone'],
+  intensity: ['intensity'],
+  instruction: ['instruction', 'direction', 'style'],
+  filename: ['filename', 'file', 'output', 'name'],
+};
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'x'];
+const FALSE_VALUES = ['', '0', 'false', 'no', 'n'];
+
+// Characters that are not allowed in file names on common platforms
+const INVALID_FILENAME = /[\\/:*?"<>|\u0000-\u001f]/;
+
+const findField = (column: string): string | undefined => {
+  const key = column.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return Object.keys(COLUMN_ALIASES).find(field => COLUMN_ALIASES[field].includes(key));
+};
+
+const matchOption = <T extends string>(value: string, options: { id: T, label: string }[]): T | undefined => {
+  const needle = value.trim().toLowerCase();
+  return options.find(o => o.id.toLowerCase() === needle || o.label.toLowerCase() === needle)?.id;
+};
+
+const matchStyleOption = <T extends string>(
+  value: string,
+  options: StyleOption<T>[],
+  field: string,
+  errors: string[]
+): T | undefined => {
+  if (!value.trim()) return undefined;
+  const id = matchOption(value, options);
+  if (!id) errors.push(`Unknown ${field} "${value}" (use ${options.map(o => o.id).join(', ')})`);
+  return id;
+};
+
+/**
+ * Validates one record (column name -> raw string value) into an import row.
+ */
+const toRow = (record: Record<string, string>, row: number): BatchImportRow => {
+  const errors: string[] = [];
+  const get = (field: string) => (record[field] ?? '').trim();
+
+  const text = get('text');
+  if (!text) errors.push('Missing text');
+
+  let voice: VoiceName | undefined;
+  if (get('voice')) {
+    voice = matchOption(get('voice'), VOICES.map(v => ({ id: v.id, label: v.label })));
+    if (!voice) errors.push(`Unknown voice "${get('voice')}"`);
+  }
+
+  let language: Language | undefined;
+  if (get('language')) {
+    language = LANGUAGES.find(l => l.toLowerCase() === get('language').toLowerCase());
+    if (!language) errors.push(`Unsupported language "${get('language')}" (use ${LANGUAGES.join(', ')})`);
+  }
+
+  let translate = false;
+  const translateValue = get('translate').toLowerCase();
+  if (TRUE_VALUES.includes(translateValue)) {
+    translate = true;
+    if (!get('language')) errors.push('Translate is set but no language was given');
+  } else if (!FALSE_VALUES.includes(translateValue)) {
+    errors.push(`Translate must be yes or no, got "${get('translate')}"`);
+  }
+
+  const rate = matchStyleOption(get('rate'), SPEAKING_RATES, 'rate', errors);
+  const emotion = matchStyleOption(get('emotion'), EMOTIONS, 'emotion', errors);
+  const intensity = matchStyleOption(get('intensity'), VOCAL_INTENSITIES, 'intensity', errors);
+  const instruction = get('instruction');
+  const style: DeliveryStyle | undefined = rate || emotion || intensity || instruction
+    ? {
+        rate: rate ?? DEFAULT_DELIVERY_STYLE.rate,
+        emotion: emotion ?? DEFAULT_DELIVERY_STYLE.emotion,
+        intensity: intensity ?? DEFAULT_DELIVERY_STYLE.intensity,
+        instruction,
+      }
+    : undefined;
+
+  // Extensions are chosen at download time, so "intro.wav" is stored as "intro"
+  const filename = get('filename').replace(/\.(wav|mp3)$/i, '') || undefined;
+  if (filename && INVALID_FILENAME.test(filename)) {
+    errors.push(`Filename "${filename}" contains characters that are not allowed`);
+  }
+
+  return { row, text, voice, language, translate, style, filename, errors };
+};
+
+/**
+ * Splits CSV text into records, handling quoted fields, escaped quotes ("")
+ * and newlines inside quotes. The delimiter is guessed from the header line
+ * so semicolon- and tab-separated spreadsheet exports work too.
+ */
+export const parseCsv = (input: string): string[][] => {
+  const source = input.replace(/^\uFEFF/, '');
+  const headerLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: headerLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new Error("CSV has an unterminated quoted field.");
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Spreadsheets often export trailing blank lines
+  return records.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const fromCsv = (input: string): BatchImportResult => {
+  const [header, ...records] = parseCsv(input);
+  if (!header) throw new Error("The CSV file is empty.");
+
+  const fields = header.map(findField);
+  if (!fields.includes('text')) {
+    throw new Error(`The CSV needs a "text" column. Found: ${header.join(', ')}`);
+  }
+
+  const ignoredColumns = header.filter((_, i) => !fields[i] && header[i].trim());
+  const rows = records.map((values, i) => {
+    const record: Record<string, string> = {};
+    fields.forEach((field, col) => {
+      if (field) record[field] = values[col] ?? '';
+    });
+    return toRow(record, i + 2);
+  });
+  return { rows, ignoredColumns };
+};
+
+const fromJson = (input: string): BatchImportResult => {
+  let data: any;
+  try {
+    data = JSON.parse(input);
+  } catch (e: any) {
+    throw new Error(`Invalid JSON: ${e.message}`);
+  }
+  const items = Array.isArray(data) ? data : data?.rows;
+  if (!Array.isArray(items)) {
+    throw new Error("JSON must be an array of rows, or an object with a \"rows\" array.");
+  }
+
+  const ignored = new Set<string>();
+  const rows = items.map((item, i) => {
+    if (typeof item === 'string') return toRow({ text: item }, i + 1);
+    if (!item || typeof item !== 'object') {
+      return { row: i + 1, text: '', translate: false, errors: ['Row must be an object or a string'] };
+    }
+
+    const record: Record<string, string> = {};
+    // A nested style object is accepted alongside flat rate/emotion/intensity keys
+    const entries: [string, unknown][] = Object.entries(item).flatMap(([key, value]) =>
+      key === 'style' && value && typeof value === 'object' ? Object.entries(value) : [[key, value] as [string, unknown]]
+    );
+    for (const [key, value] of entries) {
+      const field = findField(key);
+      if (!field) {
+        ignored.add(key);
+        continue;
+      }
+      record[field] = value === null || value === undefined ? '' : String(value);
+    }
+    return toRow(record, i + 1);
+  });
+  return { rows, ignoredColumns: Array.from(ignored) };
+};
+
+/**
+ * Parses a localization spreadsheet (CSV) or JSON export into validated batch rows.
+ * Throws for files that cannot be read at all; row-level problems are reported
+ * in each row's `errors` so they can be reviewed before running.
+ */
+export const parseBatchImport = (input: string, fileName: string): BatchImportResult => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(input);
+  const result = isJson ? fromJson(input) : fromCsv(input);
+
+  // Two rows writing the same file would overwrite each other on export
+  const seen = new Map<string, number>();
+  for (const row of result.rows) {
+    if (!row.filename) continue;
+    const key = row.filename.toLowerCase();
+    const first = seen.get(key);
+    if (first !== undefined) {
+      row.errors.push(`Filename "${row.filename}" is already used by row ${first}`);
+    } else {
+      seen.set(key, row.row);
+    }
+  }
+
+  return result;
+};
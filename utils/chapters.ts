@@ -0,0 +1,97 @@
+export interface DetectedChapter {
+  title: string;
+  text: string;
+}
+
+// "Chapter 3", "CHAPTER IV: The Storm", "Part Two", "Prologue", "अध्याय 2" ...
+const KEYWORD_HEADING = new RegExp(
+  '^(?:chapter|part|book|prologue|epilogue|introduction|preface|foreword|afterword|appendix|' +
+  'अध्याय|भाग|ಅಧ್ಯಾಯ|అధ్యాయం|அத்தியாயம்|അധ്യായം)' +
+  '(?:\\s+[\\p{L}\\p{N}]+)?\\s*(?:[.:\\-–—]\\s*.*)?$',
+  'iu'
+);
+// Markdown headings, as produced by many converters
+const MARKDOWN_HEADING = /^#{1,3}\s+(.+?)\s*#*$/;
+// A Roman numeral on its own line, e.g. "IV" or "XII."
+const ROMAN_HEADING = /^[IVXLC]{1,7}\.?$/;
+
+const MAX_HEADING_LENGTH = 80;
+
+const headingTitle = (line: string): string | null => {
+  if (line.length > MAX_HEADING_LENGTH) return null;
+  const markdown = line.match(MARKDOWN_HEADING);
+  if (markdown) return markdown[1];
+  if (KEYWORD_HEADING.test(line) || ROMAN_HEADING.test(line)) return line.replace(/[.:\-–—]\s*$/, '');
+  return null;
+};
+
+// Short line without sentence punctuation, e.g. the name under "Chapter 1"
+const isSubtitleLine = (line: string): boolean =>
+  line.length > 0 && line.length <= 60 && !/[.!?।॥,;]$/.test(line) && headingTitle(line) === null;
+
+/**
+ * Splits a document into chapters at heading lines ("Chapter 1", "# Title",
+ * "Prologue", Indic equivalents, lone Roman numerals). A short title line right
+ * after a bare heading is folded into the title ("Chapter 1: The Beginning").
+ * Headings with no text before the next heading (e.g. a table of contents) are
+ * dropped. Text with no recognisable headings becomes a single chapter.
+ */
+export const detectChapters = (text: string, fallbackTitle: string = 'Full Text'): DetectedChapter[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const chapters: { title: string, lines: string[] }[] = [];
+  let current: { title: string, lines: string[] } = { title: '', lines: [] };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    let title = line ? headingTitle(line) : null;
+    if (title === null) {
+      current.lines.push(lines[i]);
+      continue;
+    }
+
+    // Bare "Chapter 3" or "IV" followed by a title line
+    const next = lines.slice(i + 1).findIndex(l => l.trim() !== '');
+    const nextLine = next >= 0 ? lines[i + 1 + next].trim() : '';
+    const isBare = ROMAN_HEADING.test(line) || /^\S+(?:\s+[\p{L}\p{N}]+)?$/u.test(title);
+    if (isBare && !MARKDOWN_HEADING.test(line) && isSubtitleLine(nextLine)) {
+      title = `${title}: ${nextLine}`;
+      i += next + 1;
+    }
+
+    chapters.push(current);
+    current = { title, lines: [] };
+  }
+  chapters.push(current);
+
+  const result = chapters
+    .map(c => ({ title: c.title, text: c.lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() }))
+    .filter(c => c.text.length > 0)
+    .map((c, i) => ({ ...c, title: c.title || (i === 0 ? 'Opening' : `Section ${i + 1}`) }));
+
+  if (result.length <= 1) {
+    return result.length === 1 ? [{ title: result[0].title === 'Opening' ? fallbackTitle : result[0].title, text: result[0].text }] : [];
+  }
+  return result;
+};
+
+export interface TocEntry {
+  index: number;
+  title: string;
+  // Set for per-chapter exports
+  file?: string;
+  // Set for single-file exports: seconds from the start of the book
+  start?: number;
+  end?: number;
+  durationSeconds: number | null;
+}
+
+/**
+ * Table of contents written next to exported audiobook audio as toc.json.
+ */
+export const buildBookToc = (title: string, entries: TocEntry[]): string => {
+  const round = (n?: number | null) => n === undefined || n === null ? n : Number(n.toFixed(3));
+  return JSON.stringify({
+    title,
+    chapters: entries.map(e => ({ ...e, start: round(e.start), end: round(e.end), durationSeconds: round(e.durationSeconds) })),
+  }, null, 2);
+};
@@ -0,0 +1,40 @@
+import { DialogueTurn } from '../types';
+
+export interface ParsedDialogue {
+  turns: DialogueTurn[];
+  // Speaker names in order of first appearance
+  speakers: string[];
+}
+
+// "Name: line" — names may contain letters, digits, spaces, dots, hyphens and apostrophes.
+const SPEAKER_LINE = /^\s*([\p{L}\p{N}][\p{L}\p{N} .'\-]{0,39}?)\s*:\s*(.*)$/u;
+
+/**
+ * Parses a script written as `Name: line` into speaker turns.
+ * Lines without a speaker prefix continue the previous speaker's turn.
+ * Text before the first speaker prefix is ignored.
+ */
+export const parseDialogueScript = (script: string): ParsedDialogue => {
+  const turns: DialogueTurn[] = [];
+  const speakers: string[] = [];
+
+  for (const rawLine of script.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const match = line.match(SPEAKER_LINE);
+    if (match) {
+      const speaker = match[1].trim();
+      if (!speakers.includes(speaker)) speakers.push(speaker);
+      turns.push({ speaker, text: match[2].trim() });
+    } else if (turns.length > 0) {
+      const last = turns[turns.length - 1];
+      last.text = last.text ? `${last.text} ${line}` : line;
+    }
+  }
+
+  return {
+    turns: turns.filter(t => t.text.length > 0),
+    speakers,
+  };
+};
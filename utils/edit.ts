@@ -0,0 +1,207 @@
+import { AudioResult } from '../types';
+import { addWavHeader, addWavCuePoints, concatPcm, createSilence, detectVoiceActivity, getPcmDuration, VoiceRegion } from './audio';
+
+// Non-destructive region edits: each one produces a new result derived from
+// the original, so nothing goes back to the TTS API.
+
+export type AudioEdit =
+  // Keep only [start, end)
+  | { type: 'crop', start: number, end: number }
+  // Remove [start, end) and close the gap
+  | { type: 'delete', start: number, end: number }
+  | { type: 'silence', at: number, seconds: number };
+
+export interface WaveformPeaks {
+  // Per bucket, across all channels, in -1..1
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/**
+ * Reduces 16-bit PCM to `buckets` min/max pairs for drawing a waveform.
+ */
+export const computeWaveform = (pcmData: Uint8Array, numChannels: number, buckets: number): WaveformPeaks => {
+  const samples = new Int16Array(pcmData.buffer, pcmData.byteOffset, pcmData.length >> 1);
+  const frames = Math.floor(samples.length / numChannels);
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  for (let b = 0; b < buckets; b++) {
+    const from = Math.floor((b / buckets) * frames) * numChannels;
+    const to = Math.max(from + numChannels, Math.floor(((b + 1) / buckets) * frames) * numChannels);
+    let lo = 0, hi = 0;
+    for (let i = from; i < Math.min(to, samples.length); i++) {
+      if (samples[i] < lo) lo = samples[i];
+      if (samples[i] > hi) hi = samples[i];
+    }
+    min[b] = lo / 0x8000;
+    max[b] = hi / 0x8000;
+  }
+  return { min, max };
+};
+
+/**
+ * Applies an edit to 16-bit PCM. Times are in seconds and are snapped to
+ * whole frames, so interleaved channels stay aligned.
+ */
+export const applyEdit = (pcmData: Uint8Array, edit: AudioEdit, sampleRate: number = 24000, numChannels: number = 1): Uint8Array => {
+  const frameBytes = 2 * numChannels;
+  const totalFrames = Math.floor(pcmData.length / frameBytes);
+  const toByte = (seconds: number) => Math.max(0, Math.min(totalFrames, Math.round(seconds * sampleRate))) * frameBytes;
+
+  switch (edit.type) {
+    case 'crop':
+      return pcmData.slice(toByte(edit.start), toByte(edit.end));
+    case 'delete':
+      return concatPcm([pcmData.subarray(0, toByte(edit.start)), pcmData.subarray(toByte(edit.end))]);
+    case 'silence': {
+      const at = toByte(edit.at);
+      return concatPcm([pcmData.subarray(0, at), createSilence(edit.seconds, sampleRate, numChannels), pcmData.subarray(at)]);
+    }
+  }
+};
+
+/**
+ * Applies edits in order; see `planSilenceEdits` for why they run back to front.
+ */
+export const applyEdits = (pcmData: Uint8Array, edits: AudioEdit[], sampleRate: number = 24000, numChannels: number = 1): Uint8Array => {
+  return edits.reduce((pcm, edit) => applyEdit(pcm, edit, sampleRate, numChannels), pcmData);
+};
+
+/**
+ * Moves timed items (sentences, chapters) to match an edit. Items cut away
+ * entirely are dropped; items that straddle a cut are shortened.
+ */
+export const remapTimings = <T extends { start: number, end: number }>(items: T[], edit: AudioEdit): T[] => {
+  const mapTime = (time: number): number => {
+    switch (edit.type) {
+      case 'crop':
+        return Math.max(0, Math.min(edit.end, time) - edit.start);
+      case 'delete':
+        if (time <= edit.start) return time;
+        return time < edit.end ? edit.start : time - (edit.end - edit.start);
+      case 'silence':
+        // A sentence spanning the insertion point runs on through the silence
+        return time < edit.at ? time : time + edit.seconds;
+    }
+  };
+  return items
+    .map(item => ({ ...item, start: mapTime(item.start), end: mapTime(item.end) }))
+    // Anything cut away entirely has collapsed to zero length
+    .filter(item => item.end > item.start);
+};
+
+const remapAll = <T extends { start: number, end: number }>(items: T[] | undefined, edits: AudioEdit[]): T[] | undefined => {
+  return items ? edits.reduce((remapped, edit) => remapTimings(remapped, edit), items) : undefined;
+};
+
+/**
+ * Builds a new result from `result` with the edit(s) applied to its PCM
+ * (`pcmData` is passed separately because recordings have to be decoded
+ * first). Captions, transcript lines and chapters follow the edits; chapter
+ * cue points are re-embedded in the WAV.
+ */
+export const editResult = (result: AudioResult, pcmData: Uint8Array, edit: AudioEdit | AudioEdit[], numChannels: number = 1): AudioResult => {
+  const edits = Array.isArray(edit) ? edit : [edit];
+  const edited = applyEdits(pcmData, edits, 24000, numChannels);
+  const chapters = remapAll(result.chapters, edits);
+  const wav = addWavCuePoints(
+    addWavHeader(edited, 24000, numChannels),
+    (chapters ?? []).map(c => ({ sampleOffset: Math.round(c.start * 24000), label: c.title }))
+  );
+
+  return {
+    ...result,
+    id: Date.now().toString() + Math.random().toString().slice(2,6),
+    blobUrl: URL.createObjectURL(new Blob([wav], { type: 'audio/wav' })),
+    timestamp: Date.now(),
+    pcmData: edited,
+    channels: numChannels > 1 ? numChannels : undefined,
+    chapters,
+    segments: remapAll(result.segments, edits),
+    transcript: result.transcript && { ...result.transcript, segments: remapAll(result.transcript.segments, edits) },
+    editedFrom: result.id,
+    // The copy is always a WAV, whatever the original file was
+    fileExtension: undefined,
+    // Re-measured when the copy is added to history
+    loudness: undefined,
+  };
+};
+
+export interface SilenceEditOptions {
+  // Cut dead air before the first and after the last speech
+  trimEdges: boolean;
+  // Shorten pauses inside the clip to at most this many seconds
+  maxPause: number | null;
+  // Silence kept around speech at trimmed edges, in seconds
+  padding: number;
+}
+
+/**
+ * Works out the deletions that trim a clip's edges and/or shorten its long
+ * pauses, using voice activity detection. Edits are ordered from the end of
+ * the clip backwards so each one's times are still valid when it's applied.
+ * Returns no edits when no speech is found, rather than deleting everything.
+ */
+export const planSilenceEdits = (pcmData: Uint8Array, numChannels: number, { trimEdges, maxPause, padding }: SilenceEditOptions): AudioEdit[] => {
+  const regions = detectVoiceActivity(pcmData, 24000, numChannels);
+  if (regions.length === 0) return [];
+  const duration = getPcmDuration(pcmData, 24000, numChannels);
+  const edits: AudioEdit[] = [];
+
+  if (trimEdges) {
+    edits.push({ type: 'delete', start: Math.min(duration, regions[regions.length - 1].end + padding), end: duration });
+  }
+  if (maxPause !== null) {
+    for (let i = regions.length - 2; i >= 0; i--) {
+      // Keep half of the allowed pause on each side of the cut
+      edits.push({ type: 'delete', start: regions[i].end + maxPause / 2, end: regions[i + 1].start - maxPause / 2 });
+    }
+  }
+  if (trimEdges) {
+    edits.push({ type: 'delete', start: 0, end: Math.max(0, regions[0].start - padding) });
+  }
+  // Drop cuts too short to matter (they'd only cost a re-render)
+  return edits.filter(e => e.type === 'delete' && e.end - e.start >= 0.01);
+};
+
+/**
+ * Divides a clip into parts at pauses of at least `minPause` seconds. Each
+ * part keeps up to `padding` of silence on either side, without overlapping
+ * its neighbours.
+ */
+export const planSplits = (pcmData: Uint8Array, numChannels: number, minPause: number, padding: number): VoiceRegion[] => {
+  const regions = detectVoiceActivity(pcmData, 24000, numChannels);
+  const duration = getPcmDuration(pcmData, 24000, numChannels);
+  const groups: VoiceRegion[] = [];
+  regions.forEach(region => {
+    const last = groups[groups.length - 1];
+    if (last && region.start - last.end < minPause) {
+      last.end = region.end;
+    } else {
+      groups.push({ ...region });
+    }
+  });
+  return groups.map((group, i) => ({
+    start: i === 0 ? Math.max(0, group.start - padding) : Math.max(group.start - padding, (groups[i - 1].end + group.start) / 2),
+    end: i === groups.length - 1 ? Math.min(duration, group.end + padding) : Math.min(group.end + padding, (group.end + groups[i + 1].start) / 2),
+  }));
+};
+
+/**
+ * Cuts a result into one new result per part (see `planSplits`), each a
+ * cropped copy carrying the captions that fall inside it. Part texts come
+ * from those captions when there are any.
+ */
+export const splitResult = (result: AudioResult, pcmData: Uint8Array, parts: VoiceRegion[], numChannels: number = 1): AudioResult[] => {
+  const baseId = Date.now().toString() + Math.random().toString().slice(2,6);
+  return parts.map((part, i) => {
+    const edited = editResult(result, pcmData, { type: 'crop', start: part.start, end: part.end }, numChannels);
+    const captionText = edited.segments?.map(s => s.text).join(' ').trim();
+    return {
+      ...edited,
+      id: `${baseId}-${i + 1}`,
+      text: captionText || `${result.text} (part ${i + 1} of ${parts.length})`,
+      filename: result.filename ? `${result.filename}-${String(i + 1).padStart(2, '0')}` : undefined,
+    };
+  });
+};
@@ -0,0 +1,237 @@
+import { AudioResult, AudioChapter, TagSettings, Mp3Settings, AudioExportOptions } from '../types';
+import { DEFAULT_TAG_SETTINGS, DEFAULT_MP3_SETTINGS } from '../constants';
+import { abortError } from '../services/scheduler';
+import { addWavHeader, addWavCuePoints, decodeToPcm, getPcmDuration, pcm16ToFloat, resampleSamples, encodeSamples, convertChannelCount, splitChannels, interleaveChannels, normalizeLoudness, normalizePcmLoudness } from './audio';
+import { encodeMp3 } from './mp3';
+import { buildCueSheet } from './merge';
+import { buildResultTags, Id3Metadata } from './id3';
+import { encodeFlac } from './flac';
+import { encodeOggOpus } from './opus';
+
+export type ZipAudioFormat = 'wav' | 'mp3' | 'both';
+
+export interface ManifestEntry {
+  // Files written for this result, relative to the ZIP root
+  files: string[];
+  id: string;
+  text: string;
+  voice: string;
+  type: AudioResult['type'];
+  language?: string;
+  durationSeconds: number | null;
+  timestamp: string;
+  chapters?: AudioChapter[];
+}
+
+/**
+ * Lower-cases text and reduces it to letters, digits and dashes, keeping
+ * non-Latin scripts intact so Hindi/Tamil/etc. prompts still give readable names.
+ */
+export const slugify = (value: string, maxLength: number = 40): string => {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+};
+
+/**
+ * Picks a file name (without extension) for each result. Names depend only on
+ * the results and their order, so exporting the same selection twice gives the
+ * same archive layout. Imported batch rows keep the filename they were given.
+ */
+export const buildExportNames = (results: AudioResult[]): string[] => {
+  const used = new Set<string>();
+  return results.map((result, index) => {
+    const base = result.filename
+      || [String(index + 1).padStart(3, '0'), slugify(result.voice, 20), slugify(result.text)].filter(Boolean).join('-');
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base}-${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+/**
+ * Saves a blob through a temporary download link.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const csvField = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (entries: ManifestEntry[]): string => {
+  const header = ['file', 'text', 'voice', 'type', 'language', 'duration_seconds', 'timestamp'];
+  const rows = entries.flatMap(entry => entry.files.map(file => [
+    file,
+    entry.text,
+    entry.voice,
+    entry.type,
+    entry.language,
+    entry.durationSeconds === null ? null : entry.durationSeconds.toFixed(3),
+    entry.timestamp,
+  ].map(csvField).join(',')));
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export interface EncodedAudioFile {
+  blob: Blob;
+  extension: string;
+}
+
+/**
+ * Encodes 16-bit PCM (`channels` interleaved) as WAV (16/24-bit or float), FLAC
+ * or Ogg/Opus at the chosen sample rate and channel layout, optionally
+ * normalized to a loudness target. WAVs keep chapter markers as cue points;
+ * FLAC and Opus carry `tags` as Vorbis comments.
+ */
+export const encodeAudioFile = async (
+  pcmData: Uint8Array,
+  sourceRate: number,
+  options: AudioExportOptions,
+  { tags, channels = 1, onProgress, signal }: { tags?: Id3Metadata, channels?: number, onProgress?: (progress: number) => void, signal?: AbortSignal } = {}
+): Promise<EncodedAudioFile> => {
+  const targetRate = options.format === 'opus' ? 48000 : options.sampleRate;
+  const targetChannels = options.channels === 'stereo' ? 2 : 1;
+  const converted = convertChannelCount(pcm16ToFloat(pcmData), channels, targetChannels);
+  const resampled = interleaveChannels(splitChannels(converted, targetChannels).map(c => resampleSamples(c, sourceRate, targetRate)));
+  const samples = options.loudnessTarget === null
+    ? resampled
+    : normalizeLoudness(resampled, targetRate, targetChannels, options.loudnessTarget);
+  if (signal?.aborted) throw abortError();
+
+  switch (options.format) {
+    case 'opus':
+      return {
+        blob: await encodeOggOpus(samples, { bitrate: options.opusBitrate, channels: targetChannels, inputSampleRate: sourceRate, tags, onProgress, signal }),
+        extension: 'opus',
+      };
+    case 'flac':
+      return {
+        blob: encodeFlac(samples, targetRate, options.sampleFormat === 'pcm16' ? 16 : 24, tags, targetChannels),
+        extension: 'flac',
+      };
+    default: {
+      const cues = (tags?.chapters ?? []).map(c => ({ sampleOffset: Math.round(c.start * targetRate), label: c.title }));
+      const wav = addWavHeader(encodeSamples(samples, options.sampleFormat), targetRate, targetChannels, options.sampleFormat);
+      return { blob: new Blob([addWavCuePoints(wav, cues)], { type: 'audio/wav' }), extension: 'wav' };
+    }
+  }
+};
+
+export interface ZipExportOptions {
+  onProgress?: (completed: number, total: number) => void;
+  // Extra text files (name -> content) added at the ZIP root
+  extraFiles?: Record<string, string>;
+  tagSettings?: TagSettings;
+  mp3Settings?: Mp3Settings;
+  // LUFS; when set, every file is normalized to it with true-peak limiting
+  loudnessTarget?: number | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * Packs results into a ZIP with a manifest.json and manifest.csv mapping each file
+ * to its text, voice, duration and timestamp. Results without raw PCM (recordings
+ * kept in their original format) are decoded first; if the browser can't decode one, its original
+ * file is included as-is. MP3s are encoded off the main thread with `mp3Settings`
+ * and tagged from each result plus `tagSettings` (album, cover art).
+ * `loudnessTarget` evens out levels across clips.
+ * Requires JSZip to be loaded in global scope.
+ */
+export const exportResultsAsZip = async (
+  results: AudioResult[],
+  format: ZipAudioFormat,
+  {
+    onProgress,
+    extraFiles = {},
+    tagSettings = DEFAULT_TAG_SETTINGS,
+    mp3Settings = DEFAULT_MP3_SETTINGS,
+    loudnessTarget = null,
+    signal
+  }: ZipExportOptions = {}
+): Promise<Blob> => {
+  // @ts-ignore
+  if (typeof JSZip === 'undefined') {
+    throw new Error("JSZip not loaded. Cannot create ZIP.");
+  }
+  // @ts-ignore
+  const zip = new JSZip();
+  const names = buildExportNames(results);
+  const entries: ManifestEntry[] = [];
+
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i];
+    const name = names[i];
+    const files: string[] = [];
+
+    const blob = await fetch(result.blobUrl).then(r => r.blob());
+    let pcmData = result.pcmData;
+    let channels = result.channels ?? 1;
+    if (!pcmData) {
+      channels = 1;
+      try {
+        pcmData = await decodeToPcm(blob);
+      } catch (e) {
+        console.warn("Could not decode audio for export, including original file", result.id, e);
+      }
+    }
+
+    if (pcmData) {
+      if (loudnessTarget !== null) {
+        pcmData = normalizePcmLoudness(pcmData, 24000, channels, loudnessTarget);
+      }
+      if (format !== 'mp3') {
+        const cues = (result.chapters ?? []).map(c => ({ sampleOffset: Math.round(c.start * 24000), label: c.title }));
+        zip.file(`${name}.wav`, addWavCuePoints(addWavHeader(pcmData, 24000, channels), cues));
+        files.push(`${name}.wav`);
+        if (result.chapters?.length) {
+          zip.file(`${name}.cue`, buildCueSheet(result.chapters, `${name}.wav`, name, result.voice));
+          files.push(`${name}.cue`);
+        }
+      }
+      if (format !== 'wav') {
+        zip.file(`${name}.mp3`, await encodeMp3(pcmData, 24000, { settings: mp3Settings, tags: buildResultTags(result, tagSettings), channels, signal }));
+        files.push(`${name}.mp3`);
+      }
+    } else {
+      const extension = result.fileExtension || (blob.type.includes('webm') ? 'webm' : blob.type.includes('ogg') ? 'ogg' : 'wav');
+      zip.file(`${name}.${extension}`, blob);
+      files.push(`${name}.${extension}`);
+    }
+
+    entries.push({
+      files,
+      id: result.id,
+      text: result.text,
+      voice: result.voice,
+      type: result.type,
+      language: result.language,
+      durationSeconds: pcmData ? Number(getPcmDuration(pcmData, 24000, channels).toFixed(3)) : null,
+      timestamp: new Date(result.timestamp).toISOString(),
+      chapters: result.chapters,
+    });
+
+    onProgress?.(i + 1, results.length);
+    if (signal?.aborted) throw abortError();
+  }
+
+  zip.file('manifest.json', JSON.stringify({ format, count: entries.length, items: entries }, null, 2));
+  zip.file('manifest.csv', manifestToCsv(entries));
+  Object.entries(extraFiles).forEach(([name, content]) => zip.file(name, content));
+
+  // Audio doesn't compress meaningfully; storing keeps large exports fast
+  return zip.generateAsync({ type: 'blob', compression: 'STORE' });
+};
@@ -0,0 +1,356 @@
+import { Id3Metadata } from './id3';
+
+// Minimal FLAC encoder: fixed linear predictors (orders 0-4) with partitioned
+// Rice coding, constant subframes for silence and verbatim as a fallback.
+
+const BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 4;
+// Largest Rice parameter expressible with the 4-bit coding method
+const MAX_RICE_PARAMETER = 14;
+
+// Frame header sample-rate codes; anything else is read from STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+  24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+interface BitWriter {
+  write: (value: number, bits: number) => void;
+  writeUnary: (zeros: number) => void;
+  alignToByte: () => void;
+  bytes: () => Uint8Array;
+}
+
+const createBitWriter = (initialSize: number = 1 << 16): BitWriter => {
+  let buffer = new Uint8Array(initialSize);
+  let position = 0;
+  let current = 0;
+  let filled = 0;
+
+  const pushByte = (byte: number) => {
+    if (position === buffer.length) {
+      const grown = new Uint8Array(buffer.length * 2);
+      grown.set(buffer);
+      buffer = grown;
+    }
+    buffer[position++] = byte;
+  };
+
+  const write = (value: number, bits: number) => {
+    // Split wide values so the shifts below stay within 32-bit arithmetic
+    if (bits > 24) {
+      write(Math.floor(value / 0x1000000), bits - 24);
+      write(value % 0x1000000, 24);
+      return;
+    }
+    for (let remaining = bits; remaining > 0;) {
+      const take = Math.min(remaining, 8 - filled);
+      const chunk = (value >>> (remaining - take)) & ((1 << take) - 1);
+      current = (current << take) | chunk;
+      filled += take;
+      remaining -= take;
+      if (filled === 8) {
+        pushByte(current);
+        current = 0;
+        filled = 0;
+      }
+    }
+  };
+
+  const writeUnary = (zeros: number) => {
+    let remaining = zeros;
+    while (remaining >= 24) {
+      write(0, 24);
+      remaining -= 24;
+    }
+    write(1, remaining + 1);
+  };
+
+  const alignToByte = () => {
+    if (filled > 0) write(0, 8 - filled);
+  };
+
+  return { write, writeUnary, alignToByte, bytes: () => buffer.subarray(0, position) };
+};
+
+const crc8 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+// Frame numbers use the UTF-8 style variable-length encoding
+const UTF8_LIMITS = [0x80, 0x800, 0x10000, 0x200000, 0x4000000, 0x80000000];
+
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  const found = UTF8_LIMITS.findIndex(limit => value < limit);
+  const extraBytes = found === -1 ? UTF8_LIMITS.length : found;
+  if (extraBytes === 0) {
+    writer.write(value, 8);
+    return;
+  }
+  writer.write(((0xff << (7 - extraBytes)) & 0xff) | Math.floor(value / 2 ** (6 * extraBytes)), 8);
+  for (let i = extraBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+// Residual of the fixed polynomial predictor of the given order
+const fixedResidual = (samples: Int32Array, order: number): Int32Array => {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]; break;
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    residual[i - order] = s[i] - prediction;
+  }
+  return residual;
+};
+
+const zigzag = (value: number): number => value >= 0 ? value * 2 : -value * 2 - 1;
+
+const riceBits = (residual: Int32Array, start: number, end: number, parameter: number): number => {
+  let bits = (end - start) * (parameter + 1);
+  for (let i = start; i < end; i++) {
+    bits += Math.floor(zigzag(residual[i]) / 2 ** parameter);
+  }
+  return bits;
+};
+
+// Cheapest Rice parameter for a partition, searched around the mean-based estimate
+const bestRiceParameter = (residual: Int32Array, start: number, end: number): { parameter: number, bits: number } => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += zigzag(residual[i]);
+  const mean = end > start ? sum / (end - start) : 0;
+  const estimate = Math.min(MAX_RICE_PARAMETER, Math.max(0, Math.floor(Math.log2(mean + 1))));
+  let best = { parameter: estimate, bits: riceBits(residual, start, end, estimate) };
+  for (const candidate of [estimate - 1, estimate + 1]) {
+    if (candidate < 0 || candidate > MAX_RICE_PARAMETER) continue;
+    const bits = riceBits(residual, start, end, candidate);
+    if (bits < best.bits) best = { parameter: candidate, bits };
+  }
+  return best;
+};
+
+interface ResidualPlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+const planResidual = (residual: Int32Array, blockSize: number, order: number): ResidualPlan => {
+  let best: ResidualPlan | null = null;
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitionSize = blockSize >> partitionOrder;
+    if (blockSize % (1 << partitionOrder) !== 0 || partitionSize <= order) break;
+    const parameters: number[] = [];
+    let bits = 2 + 4;
+    let start = 0;
+    for (let p = 0; p < 1 << partitionOrder; p++) {
+      // The first partition holds fewer residuals: warm-up samples are stored verbatim
+      const end = start + partitionSize - (p === 0 ? order : 0);
+      const choice = bestRiceParameter(residual, start, end);
+      parameters.push(choice.parameter);
+      bits += 4 + choice.bits;
+      start = end;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder, parameters, bits };
+  }
+  return best!;
+};
+
+const writeResidual = (writer: BitWriter, residual: Int32Array, blockSize: number, order: number, plan: ResidualPlan) => {
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(plan.partitionOrder, 4);
+  const partitionSize = blockSize >> plan.partitionOrder;
+  let start = 0;
+  plan.parameters.forEach((parameter, p) => {
+    const end = start + partitionSize - (p === 0 ? order : 0);
+    writer.write(parameter, 4);
+    const divisor = 2 ** parameter;
+    for (let i = start; i < end; i++) {
+      const value = zigzag(residual[i]);
+      writer.writeUnary(Math.floor(value / divisor));
+      if (parameter > 0) writer.write(value % divisor, parameter);
+    }
+    start = end;
+  });
+};
+
+const toUnsigned = (value: number, bits: number): number => value < 0 ? value + 2 ** bits : value;
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, bitsPerSample: number) => {
+  if (samples.every(s => s === samples[0])) {
+    writer.write(0, 1);
+    writer.write(0b000000, 6); // CONSTANT
+    writer.write(0, 1);
+    writer.write(toUnsigned(samples[0], bitsPerSample), bitsPerSample);
+    return;
+  }
+
+  let best: { order: number, residual: Int32Array, plan: ResidualPlan, bits: number } | null = null;
+  for (let order = 0; order <= 4 && order < samples.length; order++) {
+    const residual = fixedResidual(samples, order);
+    const plan = planResidual(residual, samples.length, order);
+    const bits = order * bitsPerSample + plan.bits;
+    if (!best || bits < best.bits) best = { order, residual, plan, bits };
+  }
+
+  if (!best || best.bits >= samples.length * bitsPerSample) {
+    writer.write(0, 1);
+    writer.write(0b000001, 6); // VERBATIM
+    writer.write(0, 1);
+    samples.forEach(s => writer.write(toUnsigned(s, bitsPerSample), bitsPerSample));
+    return;
+  }
+
+  writer.write(0, 1);
+  writer.write(0b001000 | best.order, 6); // FIXED
+  writer.write(0, 1);
+  for (let i = 0; i < best.order; i++) {
+    writer.write(toUnsigned(samples[i], bitsPerSample), bitsPerSample);
+  }
+  writeResidual(writer, best.residual, samples.length, best.order, best.plan);
+};
+
+const encodeFrame = (channels: Int32Array[], frameNumber: number, sampleRate: number, bitsPerSample: 16 | 24): Uint8Array => {
+  const blockSize = channels[0].length;
+  const writer = createBitWriter(blockSize * channels.length * 4 + 64);
+  writer.write(0b11111111111110, 14); // sync code
+  writer.write(0, 1);
+  writer.write(0, 1); // fixed block size
+  writer.write(0b0111, 4); // block size - 1 follows as 16 bits
+  writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+  writer.write(channels.length - 1, 4); // independent channels
+  writer.write(bitsPerSample === 24 ? 0b110 : 0b100, 3);
+  writer.write(0, 1);
+  writeUtf8Number(writer, frameNumber);
+  writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.bytes()), 8);
+
+  channels.forEach(samples => writeSubframe(writer, samples, bitsPerSample));
+  writer.alignToByte();
+  writer.write(crc16(writer.bytes()), 16);
+  return writer.bytes().slice();
+};
+
+const metadataBlockHeader = (type: number, length: number, isLast: boolean): Uint8Array => {
+  return new Uint8Array([(isLast ? 0x80 : 0) | type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+};
+
+const formatChapterTime = (seconds: number): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  return `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor((totalMs % 3600000) / 60000))}:${pad(Math.floor((totalMs % 60000) / 1000))}.${pad(totalMs % 1000, 3)}`;
+};
+
+/**
+ * Builds a Vorbis comment packet body (shared by FLAC and Ogg/Opus) from the
+ * same metadata used for ID3 tags. Chapters use the CHAPTERxxx convention.
+ */
+export const buildVorbisComment = (meta: Id3Metadata, vendor: string): Uint8Array => {
+  const comments: string[] = [];
+  if (meta.title) comments.push(`TITLE=${meta.title}`);
+  if (meta.artist) comments.push(`ARTIST=${meta.artist}`);
+  if (meta.album) comments.push(`ALBUM=${meta.album}`);
+  if (meta.track) comments.push(`TRACKNUMBER=${meta.track}`);
+  if (meta.language) comments.push(`LANGUAGE=${meta.language}`);
+  if (meta.lyrics) comments.push(`LYRICS=${meta.lyrics}`, `DESCRIPTION=${meta.lyrics}`);
+  (meta.chapters ?? []).forEach((chapter, i) => {
+    const key = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+    comments.push(`${key}=${formatChapterTime(chapter.start)}`, `${key}NAME=${chapter.title}`);
+  });
+
+  const encoder = new TextEncoder();
+  const strings = [encoder.encode(vendor), ...comments.map(c => encoder.encode(c))];
+  const result = new Uint8Array(strings.reduce((sum, s) => sum + 4 + s.length, 4));
+  const view = new DataView(result.buffer);
+  let offset = 0;
+  strings.forEach((bytes, i) => {
+    view.setUint32(offset, bytes.length, true);
+    result.set(bytes, offset + 4);
+    offset += 4 + bytes.length;
+    // The comment count sits between the vendor string and the comments
+    if (i === 0) {
+      view.setUint32(offset, comments.length, true);
+      offset += 4;
+    }
+  });
+  return result;
+};
+
+/**
+ * Encodes float samples as a FLAC file at 16 or 24 bits, with optional Vorbis
+ * comment tags. Multi-channel input is interleaved; channels are coded
+ * independently.
+ */
+export const encodeFlac = (
+  samples: Float32Array,
+  sampleRate: number,
+  bitsPerSample: 16 | 24 = 16,
+  tags?: Id3Metadata,
+  numChannels: number = 1
+): Blob => {
+  const max = 2 ** (bitsPerSample - 1);
+  const length = Math.floor(samples.length / numChannels);
+  const quantized = Array.from({ length: numChannels }, () => new Int32Array(length));
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const s = Math.max(-1, Math.min(1, samples[i * numChannels + ch]));
+      quantized[ch][i] = Math.round(s < 0 ? s * max : s * (max - 1));
+    }
+  }
+
+  const frames: Uint8Array[] = [];
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  for (let start = 0, frameNumber = 0; start < length; start += BLOCK_SIZE, frameNumber++) {
+    const block = quantized.map(channel => channel.subarray(start, start + BLOCK_SIZE));
+    const frame = encodeFrame(block, frameNumber, sampleRate, bitsPerSample);
+    minFrameSize = Math.min(minFrameSize, frame.length);
+    maxFrameSize = Math.max(maxFrameSize, frame.length);
+    frames.push(frame);
+  }
+
+  // STREAMINFO; the MD5 signature is left as zeros ("not computed")
+  const info = createBitWriter(34);
+  info.write(BLOCK_SIZE, 16);
+  info.write(BLOCK_SIZE, 16);
+  info.write(frames.length ? minFrameSize : 0, 24);
+  info.write(maxFrameSize, 24);
+  info.write(sampleRate, 20);
+  info.write(numChannels - 1, 3);
+  info.write(bitsPerSample - 1, 5);
+  info.write(length, 36);
+  for (let i = 0; i < 16; i++) info.write(0, 8);
+
+  const comment = tags ? buildVorbisComment(tags, 'Gemini Vox') : null;
+  const header = [
+    new Uint8Array([0x66, 0x4c, 0x61, 0x43]), // "fLaC"
+    metadataBlockHeader(0, 34, !comment),
+    info.bytes(),
+    ...(comment ? [metadataBlockHeader(4, comment.length, true), comment] : []),
+  ];
+  return new Blob([...header, ...frames], { type: 'audio/flac' });
+};
@@ -0,0 +1,175 @@
+import { AudioChapter, AudioResult, Language, TagSettings } from '../types';
+
+// Writes ID3v2.3 tags, the version with the widest player support (Windows,
+// iTunes, most LMS importers). Text is UTF-16 with a BOM since v2.3 has no UTF-8.
+
+export interface Id3Picture {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface Id3Metadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  // "3" or "3/12"
+  track?: string;
+  language?: Language;
+  // Full prompt, written as both unsynchronised lyrics and a comment
+  lyrics?: string;
+  cover?: Id3Picture;
+  chapters?: AudioChapter[];
+}
+
+const ISO_639_2: Record<Language, string> = {
+  'English': 'eng',
+  'Hindi': 'hin',
+  'Kannada': 'kan',
+  'Telugu': 'tel',
+  'Tamil': 'tam',
+  'Malayalam': 'mal',
+};
+
+const ENCODING_UTF16 = 0x01;
+
+const latin1 = (value: string): Uint8Array => Uint8Array.from(value, c => c.charCodeAt(0) & 0xff);
+
+const utf16 = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(2 + value.length * 2);
+  bytes[0] = 0xff;
+  bytes[1] = 0xfe;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[2 + i * 2] = code & 0xff;
+    bytes[3 + i * 2] = code >> 8;
+  }
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const uint32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+};
+
+const NUL = new Uint8Array([0]);
+const NUL16 = new Uint8Array([0, 0]);
+
+const frame = (id: string, body: Uint8Array): Uint8Array => {
+  // v2.3 frame sizes are plain big-endian integers (unlike the synchsafe tag size)
+  return concat([latin1(id), uint32(body.length), new Uint8Array(2), body]);
+};
+
+const textFrame = (id: string, value: string): Uint8Array =>
+  frame(id, concat([new Uint8Array([ENCODING_UTF16]), utf16(value), NUL16]));
+
+// Shared layout of COMM and USLT: encoding, language, description, text
+const languageTextFrame = (id: string, language: string, text: string): Uint8Array =>
+  frame(id, concat([new Uint8Array([ENCODING_UTF16]), latin1(language), utf16(''), NUL16, utf16(text)]));
+
+const pictureFrame = (picture: Id3Picture): Uint8Array =>
+  frame('APIC', concat([
+    new Uint8Array([ENCODING_UTF16]),
+    latin1(picture.mimeType), NUL,
+    new Uint8Array([0x03]), // front cover
+    utf16(''), NUL16,
+    picture.data,
+  ]));
+
+/**
+ * CHAP and CTOC frames from the ID3v2 Chapter Frame Addendum, understood by
+ * podcast apps and audiobook players.
+ */
+const chapterFrames = (chapters: AudioChapter[]): Uint8Array[] => {
+  // CTOC stores the child count in a single byte
+  const listed = chapters.slice(0, 255);
+  const ids = listed.map((_, i) => `chp${i}`);
+  const chaps = listed.map((chapter, i) => frame('CHAP', concat([
+    latin1(ids[i]), NUL,
+    uint32(Math.round(chapter.start * 1000)),
+    uint32(Math.round(chapter.end * 1000)),
+    uint32(0xffffffff), // byte offsets unused; times are authoritative
+    uint32(0xffffffff),
+    textFrame('TIT2', chapter.title),
+  ])));
+  const toc = frame('CTOC', concat([
+    latin1('toc'), NUL,
+    new Uint8Array([0x03]), // top-level, ordered
+    new Uint8Array([ids.length]),
+    ...ids.map(id => concat([latin1(id), NUL])),
+  ]));
+  return [toc, ...chaps];
+};
+
+/**
+ * Builds a complete ID3v2.3 tag to prepend to an MP3 stream.
+ */
+export const buildId3Tag = (meta: Id3Metadata): Uint8Array => {
+  const frames: Uint8Array[] = [];
+  if (meta.title) frames.push(textFrame('TIT2', meta.title));
+  if (meta.artist) frames.push(textFrame('TPE1', meta.artist));
+  if (meta.album) frames.push(textFrame('TALB', meta.album));
+  if (meta.track) frames.push(textFrame('TRCK', meta.track));
+  if (meta.language) frames.push(textFrame('TLAN', ISO_639_2[meta.language]));
+  if (meta.lyrics) {
+    const language = meta.language ? ISO_639_2[meta.language] : 'und';
+    frames.push(languageTextFrame('USLT', language, meta.lyrics));
+    frames.push(languageTextFrame('COMM', language, meta.lyrics));
+  }
+  if (meta.cover) frames.push(pictureFrame(meta.cover));
+  if (meta.chapters?.length) frames.push(...chapterFrames(meta.chapters));
+
+  const body = concat(frames);
+  const size = body.length;
+  // Tag size is synchsafe: 7 bits per byte
+  const header = new Uint8Array([
+    0x49, 0x44, 0x33, 0x03, 0x00, 0x00,
+    (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f,
+  ]);
+  return concat([header, body]);
+};
+
+/**
+ * Decodes a `data:` URL (as stored for the cover image) into picture bytes.
+ */
+export const dataUrlToPicture = (dataUrl: string): Id3Picture | undefined => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return undefined;
+  const binary = atob(match[2]);
+  return { mimeType: match[1], data: Uint8Array.from(binary, c => c.charCodeAt(0)) };
+};
+
+// First sentence of the prompt, shortened for display in players
+const titleFromText = (text: string): string => {
+  const firstLine = text.replace(/\s+/g, ' ').trim();
+  const sentence = firstLine.match(/^.*?[.!?।॥](?=\s|$)/)?.[0] ?? firstLine;
+  return sentence.length > 80 ? `${sentence.slice(0, 79)}…` : sentence;
+};
+
+/**
+ * Derives tags for a history result: audiobook chapters use the book as album
+ * and the chapter as track, other clips use the project name from settings.
+ */
+export const buildResultTags = (result: AudioResult, settings: TagSettings): Id3Metadata => {
+  const chapterTitle = result.book && result.book.chapter > 0 ? result.text.split('\n')[0].trim() : undefined;
+  return {
+    title: chapterTitle || (result.book ? result.book.title : result.filename || titleFromText(result.text)),
+    artist: result.type === 'recording' || result.type === 'upload' ? undefined : result.voice,
+    album: result.book?.title || settings.album.trim() || undefined,
+    track: result.book && result.book.chapter > 0 ? String(result.book.chapter) : undefined,
+    language: result.language,
+    lyrics: result.text,
+    cover: settings.coverImage ? dataUrlToPicture(settings.coverImage) : undefined,
+    chapters: result.chapters,
+  };
+};
@@ -0,0 +1,191 @@
+import { VoiceName } from '../types';
+
+// Inline script markup:
+//   [pause 1.5s] / [pause 500ms]   exact-length silence
+//   *emphasis*                      stressed delivery (a lone * stays literal)
+//   [voice=Charon]...[/voice]       switch voice for a span
+// Use a backslash to write a literal \*, \[ or \].
+
+export type MarkupSegment =
+  | { type: 'speech'; text: string; voice?: VoiceName; emphasis: boolean }
+  | { type: 'pause'; seconds: number };
+
+export interface MarkupError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface ParsedMarkup {
+  segments: MarkupSegment[];
+  errors: MarkupError[];
+}
+
+const MAX_PAUSE_SECONDS = 60;
+
+const TAG_PATTERN = /^\[\s*(pause|voice|\/voice)\b([^\]\n]*)\]/i;
+const PAUSE_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/i;
+// "*...*" on one line, hugging its text at both ends; anything else is a literal "*"
+const EMPHASIS_PATTERN = /\*(?=\S)(?:\\.|[^*\\\n])*?[^\s\\*]\*/y;
+
+/**
+ * Quick check used to decide whether text needs the markup pipeline at all.
+ */
+export const hasMarkup = (text: string): boolean =>
+  /\[\s*(pause|voice|\/voice)\b/i.test(text) || /(?:^|[^\\])\*(?=\S)(?:\\.|[^*\\\n])*?[^\s\\*]\*/.test(text);
+
+const findVoice = (name: string): VoiceName | undefined =>
+  Object.values(VoiceName).find(v => v.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Splits marked-up text into speech and pause segments.
+ * Never throws; problems are collected with 1-based line/column positions.
+ */
+export const parseMarkup = (text: string): ParsedMarkup => {
+  const segments: MarkupSegment[] = [];
+  const errors: MarkupError[] = [];
+
+  let buffer = '';
+  let voice: VoiceName | undefined;
+  let voiceOpen: { line: number; column: number } | null = null;
+  let emphasisOpen: { line: number; column: number } | null = null;
+
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  const error = (message: string, at = { line, column }) => {
+    errors.push({ line: at.line, column: at.column, message });
+  };
+
+  const flush = () => {
+    if (buffer.trim()) {
+      const last = segments[segments.length - 1];
+      const emphasis = emphasisOpen !== null;
+      if (last && last.type === 'speech' && last.voice === voice && last.emphasis === emphasis) {
+        last.text += buffer;
+      } else {
+        segments.push({ type: 'speech', text: buffer, voice, emphasis });
+      }
+    }
+    buffer = '';
+  };
+
+  const advance = (count: number) => {
+    for (let k = 0; k < count; k++) {
+      if (text[i] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      i++;
+    }
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && /[*[\]\\]/.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      advance(2);
+      continue;
+    }
+
+    if (ch === '[') {
+      const tag = text.slice(i).match(TAG_PATTERN);
+      if (!tag) {
+        // Unrecognised brackets like "[Intro]" are left as plain text unless they look like our tags
+        if (/^\[\s*(pause|voice|\/voice)\b/i.test(text.slice(i))) {
+          error('Unclosed tag, expected "]".');
+        }
+        buffer += ch;
+        advance(1);
+        continue;
+      }
+
+      const name = tag[1].toLowerCase();
+      const arg = tag[2].trim();
+
+      if (name === 'pause') {
+        const duration = arg.match(PAUSE_PATTERN);
+        if (!duration) {
+          error(`Invalid pause "${arg}". Use e.g. [pause 1.5s] or [pause 500ms].`);
+        } else {
+          const value = parseFloat(duration[1]);
+          const seconds = duration[2]?.toLowerCase() === 'ms' ? value / 1000 : value;
+          if (seconds > MAX_PAUSE_SECONDS) {
+            error(`Pause of ${seconds}s exceeds the ${MAX_PAUSE_SECONDS}s maximum.`);
+          } else {
+            flush();
+            segments.push({ type: 'pause', seconds });
+          }
+        }
+      } else if (name === 'voice') {
+        const voiceName = arg.replace(/^=/, '').trim();
+        const match = findVoice(voiceName);
+        if (!arg.startsWith('=') || !voiceName) {
+          error('Voice tag needs a name, e.g. [voice=Charon].');
+        } else if (!match) {
+          error(`Unknown voice "${voiceName}". Available: ${Object.values(VoiceName).join(', ')}.`);
+        } else if (voiceOpen) {
+          error('Voice tags cannot be nested; close the previous one with [/voice] first.');
+        } else {
+          flush();
+          voice = match;
+          voiceOpen = { line, column };
+        }
+      } else {
+        if (arg) {
+          error('Closing tag [/voice] takes no arguments.');
+        } else if (!voiceOpen) {
+          error('[/voice] without a matching [voice=...].');
+        } else {
+          flush();
+          voice = undefined;
+          voiceOpen = null;
+        }
+      }
+
+      advance(tag[0].length);
+      continue;
+    }
+
+    if (ch === '*') {
+      if (emphasisOpen) {
+        flush();
+        emphasisOpen = null;
+        advance(1);
+        continue;
+      }
+      // Only a balanced "*word*" opens emphasis; a lone "*" (e.g. "5*3", a
+      // footnote or a bullet) is literal text
+      EMPHASIS_PATTERN.lastIndex = i;
+      if (EMPHASIS_PATTERN.test(text)) {
+        flush();
+        emphasisOpen = { line, column };
+        advance(1);
+        continue;
+      }
+    }
+
+    buffer += ch;
+    advance(1);
+  }
+
+  if (emphasisOpen) {
+    error('Unclosed emphasis, expected a closing "*".', emphasisOpen);
+  }
+  if (voiceOpen) {
+    error('Unclosed voice tag, expected [/voice].', voiceOpen);
+  }
+  flush();
+
+  return { segments, errors };
+};
+
+/**
+ * Formats parser errors for the error banner.
+ */
+export const formatMarkupErrors = (errors: MarkupError[]): string =>
+  errors.map(e => `Line ${e.line}, column ${e.column}: ${e.message}`).join(' ');
@@ -0,0 +1,156 @@
+import { AudioChapter, AudioResult } from '../types';
+import { addWavHeader, addWavCuePoints, convertPcmChannels, decodeToPcm } from './audio';
+
+export type MergeTransition = 'gap' | 'crossfade';
+
+export interface MergeOptions {
+  transition: MergeTransition;
+  // Length of the silence gap or of the crossfade overlap
+  seconds: number;
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = { transition: 'gap', seconds: 0.5 };
+
+export interface MergeClip {
+  // 16-bit PCM, already at the merge sample rate and channel count
+  pcmData: Uint8Array;
+  title: string;
+}
+
+export interface MergedProgram {
+  pcmData: Uint8Array;
+  chapters: AudioChapter[];
+}
+
+/**
+ * Joins clips end to end, either separated by silence or overlapped with an
+ * equal-power crossfade, and records where each clip starts as a chapter.
+ * Crossfades are shortened when a clip is too short to overlap fully.
+ * Positions are counted in frames so interleaved stereo stays aligned.
+ */
+export const mergeClips = (clips: MergeClip[], options: MergeOptions, sampleRate: number = 24000, numChannels: number = 1): MergedProgram => {
+  const seconds = Math.max(0, options.seconds);
+  const gapSamples = options.transition === 'gap' ? Math.round(seconds * sampleRate) : 0;
+  const fadeSamples = options.transition === 'crossfade' ? Math.round(seconds * sampleRate) : 0;
+
+  const sources = clips.map(c => new Int16Array(c.pcmData.buffer, c.pcmData.byteOffset, c.pcmData.length >> 1));
+  const frameCounts = sources.map(samples => Math.floor(samples.length / numChannels));
+
+  // Work out each clip's start position first so the output can be allocated once
+  const starts: number[] = [];
+  const overlaps: number[] = [];
+  let end = 0;
+  frameCounts.forEach((frames, i) => {
+    const overlap = i === 0 ? 0 : Math.min(fadeSamples, frames, frameCounts[i - 1]);
+    const start = i === 0 ? 0 : end + gapSamples - overlap;
+    starts.push(start);
+    overlaps.push(overlap);
+    end = start + frames;
+  });
+
+  const output = new Int16Array(end * numChannels);
+  sources.forEach((samples, i) => {
+    const start = starts[i] * numChannels;
+    const overlap = overlaps[i] * numChannels;
+    for (let j = 0; j < frameCounts[i] * numChannels; j++) {
+      if (j < overlap) {
+        // Equal-power curves keep perceived loudness steady through the overlap
+        const t = (Math.floor(j / numChannels) + 0.5) / overlaps[i];
+        const mixed = output[start + j] * Math.cos(t * Math.PI / 2) + samples[j] * Math.sin(t * Math.PI / 2);
+        output[start + j] = Math.max(-0x8000, Math.min(0x7FFF, Math.round(mixed)));
+      } else {
+        output[start + j] = samples[j];
+      }
+    }
+  });
+
+  const chapters: AudioChapter[] = clips.map((clip, i) => ({
+    title: clip.title,
+    start: starts[i] / sampleRate,
+    end: (i + 1 < clips.length ? starts[i + 1] : end) / sampleRate,
+  }));
+
+  return { pcmData: new Uint8Array(output.buffer), chapters };
+};
+
+/**
+ * Formats seconds as a cue sheet timestamp: MM:SS:FF with 75 frames per second.
+ */
+const toCueTime = (seconds: number): string => {
+  const totalFrames = Math.round(seconds * 75);
+  const frames = totalFrames % 75;
+  const totalSeconds = Math.floor(totalFrames / 75);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 60))}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+};
+
+// Cue sheets quote values with double quotes and have no escape syntax
+const cueString = (value: string): string => value.replace(/"/g, "'").replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds a CUE sheet describing chapters as tracks of a single audio file.
+ */
+export const buildCueSheet = (chapters: AudioChapter[], fileName: string, title: string, performer?: string): string => {
+  const lines = [
+    ...(performer ? [`PERFORMER "${cueString(performer)}"`] : []),
+    `TITLE "${cueString(title)}"`,
+    `FILE "${cueString(fileName)}" WAVE`,
+  ];
+  chapters.forEach((chapter, i) => {
+    lines.push(`  TRACK ${(i + 1).toString().padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE "${cueString(chapter.title)}"`);
+    if (performer) lines.push(`    PERFORMER "${cueString(performer)}"`);
+    lines.push(`    INDEX 01 ${toCueTime(chapter.start)}`);
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+export interface MergeSource {
+  result: AudioResult;
+  // Chapter title for this clip in the merged program
+  title: string;
+}
+
+/**
+ * Merges history results into one new result with chapter cue points embedded
+ * in the WAV. Clips without raw PCM (recordings kept in their original format)
+ * are decoded, which also resamples them to 24kHz. The program is stereo when any source
+ * is, with mono clips copied to both channels. Sentence timings are carried
+ * over when every source has them.
+ */
+export const mergeResults = async (sources: MergeSource[], options: MergeOptions): Promise<AudioResult> => {
+  const decoded: { pcmData: Uint8Array, channels: number, title: string }[] = [];
+  for (const { result, title } of sources) {
+    decoded.push(result.pcmData
+      ? { pcmData: result.pcmData, channels: result.channels ?? 1, title }
+      : { pcmData: await decodeToPcm(await fetch(result.blobUrl).then(r => r.blob())), channels: 1, title });
+  }
+  const channels = Math.max(1, ...decoded.map(d => d.channels));
+  const clips: MergeClip[] = decoded.map(d => ({ pcmData: convertPcmChannels(d.pcmData, d.channels, channels), title: d.title }));
+  const program = mergeClips(clips, options, 24000, channels);
+  const wav = addWavCuePoints(
+    addWavHeader(program.pcmData, 24000, channels),
+    program.chapters.map(c => ({ sampleOffset: Math.round(c.start * 24000), label: c.title }))
+  );
+  const voices = Array.from(new Set(sources.map(s => s.result.voice)));
+  const segments = sources.every(s => s.result.segments)
+    ? sources.flatMap((source, i) => source.result.segments!.map(s => ({
+        ...s,
+        start: s.start + program.chapters[i].start,
+        end: s.end + program.chapters[i].start,
+      })))
+    : undefined;
+
+  return {
+    id: Date.now().toString() + Math.random().toString().slice(2,6),
+    text: sources.map(s => s.result.text).join('\n\n'),
+    voice: voices.length === 1 ? voices[0] : 'Mixed',
+    blobUrl: URL.createObjectURL(new Blob([wav], { type: 'audio/wav' })),
+    timestamp: Date.now(),
+    type: 'merge',
+    pcmData: program.pcmData,
+    channels: channels > 1 ? channels : undefined,
+    chapters: program.chapters,
+    segments,
+  };
+};
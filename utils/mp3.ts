@@ -0,0 +1,91 @@
+import { Mp3Settings } from '../types';
+import { DEFAULT_MP3_SETTINGS, MPEG2_MAX_BITRATE } from '../constants';
+import { abortError } from '../services/scheduler';
+import { convertToMp3, convertPcmChannels, resamplePcm } from './audio';
+import { buildId3Tag, Id3Metadata } from './id3';
+import type { Mp3WorkerRequest, Mp3WorkerResponse } from './mp3.worker';
+
+export interface Mp3EncodeOptions {
+  settings?: Mp3Settings;
+  tags?: Id3Metadata;
+  // Channels interleaved in the input PCM
+  channels?: number;
+  // Fraction of the audio encoded so far, 0..1
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Highest bitrate the MP3 format allows at a sample rate. Rates below 32 kHz
+ * are MPEG-2, which stops at 160 kbps.
+ */
+export const maxMp3Bitrate = (sampleRate: number): number => sampleRate < 32000 ? MPEG2_MAX_BITRATE : 320;
+
+/**
+ * Encodes 16-bit PCM to MP3 in a Web Worker so long clips don't freeze the UI.
+ * The worker also converts to the chosen mono/stereo layout and resamples to
+ * `settings.sampleRate`, and an ID3 tag is prepended when `tags` is given.
+ * Aborting the signal terminates the worker. Falls back to encoding on the
+ * main thread where workers are unavailable.
+ */
+export const encodeMp3 = async (
+  pcmData: Uint8Array,
+  sampleRate: number = 24000,
+  { settings = DEFAULT_MP3_SETTINGS, tags, channels = 1, onProgress, signal }: Mp3EncodeOptions = {}
+): Promise<Blob> => {
+  if (signal?.aborted) throw abortError();
+  const bitrate = Math.min(settings.bitrate, maxMp3Bitrate(settings.sampleRate));
+
+  if (typeof Worker === 'undefined') {
+    const outputChannels = settings.channels === 'stereo' ? 2 : 1;
+    const resampled = resamplePcm(convertPcmChannels(pcmData, channels, outputChannels), sampleRate, settings.sampleRate, outputChannels);
+    return convertToMp3(resampled, settings.sampleRate, outputChannels, tags);
+  }
+
+  // Copy so the transferred buffer doesn't detach the result's PCM
+  const samples = new Int16Array(pcmData.byteLength >> 1);
+  new Uint8Array(samples.buffer).set(pcmData.subarray(0, samples.length * 2));
+
+  const chunks = await new Promise<Uint8Array[]>((resolve, reject) => {
+    const worker = new Worker(new URL('./mp3.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<Mp3WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        finish();
+        onProgress?.(1);
+        resolve(message.chunks);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'MP3 encoder failed to start.'));
+    };
+
+    const request: Mp3WorkerRequest = {
+      samples,
+      sourceRate: sampleRate,
+      sourceChannels: channels,
+      sampleRate: settings.sampleRate,
+      bitrate,
+      channels: settings.channels,
+    };
+    worker.postMessage(request, [samples.buffer]);
+  });
+
+  return new Blob(tags ? [buildId3Tag(tags), ...chunks] : chunks, { type: 'audio/mp3' });
+};
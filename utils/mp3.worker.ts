@@ -0,0 +1,89 @@
+import type { ChannelMode } from '../types';
+import { convertPcmChannels, resamplePcm } from './audio';
+
+// Converts channels, resamples and runs lamejs off the main thread. This is a
+// module worker (so it can import the resampler), which can't importScripts,
+// so the same CDN build as index.html is fetched and evaluated instead.
+
+const LAMEJS_URL = 'https://cdn.jsdelivr.net/npm/lamejs@1.2.1/lame.min.js';
+
+export interface Mp3WorkerRequest {
+  // The source PCM, interleaved when it has more than one channel
+  samples: Int16Array;
+  sourceRate: number;
+  sourceChannels: number;
+  // Output format
+  sampleRate: number;
+  bitrate: number;
+  channels: ChannelMode;
+}
+
+export type Mp3WorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; chunks: Uint8Array[] }
+  | { type: 'error'; message: string };
+
+const BLOCK_SIZE = 1152;
+// Blocks between progress messages (~0.5s of audio at 24 kHz)
+const PROGRESS_INTERVAL = 10;
+
+const post = (message: Mp3WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// The build declares a global `lamejs` function; hand it back instead
+const loadLamejs = async (): Promise<any> => {
+  const response = await fetch(LAMEJS_URL);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return new Function(`${await response.text()}\nreturn lamejs;`)();
+};
+
+self.onmessage = async (event: MessageEvent<Mp3WorkerRequest>) => {
+  const { sourceRate, sourceChannels, sampleRate, bitrate, channels } = event.data;
+  let lamejs: any;
+  try {
+    lamejs = await loadLamejs();
+  } catch (e) {
+    post({ type: 'error', message: 'Could not load the MP3 encoder (lamejs).' });
+    return;
+  }
+
+  try {
+    const stereo = channels === 'stereo';
+    const outputChannels = stereo ? 2 : 1;
+    const source = new Uint8Array(event.data.samples.buffer, event.data.samples.byteOffset, event.data.samples.byteLength);
+    const converted = resamplePcm(convertPcmChannels(source, sourceChannels, outputChannels), sourceRate, sampleRate, outputChannels);
+    const samples = new Int16Array(converted.buffer, converted.byteOffset, converted.byteLength >> 1);
+
+    const encoder = new lamejs.Mp3Encoder(outputChannels, sampleRate, bitrate);
+    const chunks: Uint8Array[] = [];
+    const keep = (buffer: Int8Array) => {
+      // lamejs reuses its output buffer, so copy each block out
+      if (buffer.length > 0) chunks.push(new Uint8Array(buffer));
+    };
+
+    const frames = stereo ? samples.length >> 1 : samples.length;
+    const left = new Int16Array(BLOCK_SIZE);
+    const right = new Int16Array(BLOCK_SIZE);
+    const blocks = Math.ceil(frames / BLOCK_SIZE);
+    for (let block = 0; block < blocks; block++) {
+      const start = block * BLOCK_SIZE;
+      if (stereo) {
+        const length = Math.min(BLOCK_SIZE, frames - start);
+        for (let i = 0; i < length; i++) {
+          left[i] = samples[(start + i) * 2];
+          right[i] = samples[(start + i) * 2 + 1];
+        }
+        keep(encoder.encodeBuffer(left.subarray(0, length), right.subarray(0, length)));
+      } else {
+        keep(encoder.encodeBuffer(samples.subarray(start, start + BLOCK_SIZE)));
+      }
+      if (block % PROGRESS_INTERVAL === 0) post({ type: 'progress', progress: block / blocks });
+    }
+    keep(encoder.flush());
+
+    post({ type: 'done', chunks }, chunks.map(c => c.buffer));
+  } catch (e: any) {
+    post({ type: 'error', message: e?.message || 'MP3 encoding failed.' });
+  }
+};
@@ -0,0 +1,233 @@
+import { abortError } from '../services/scheduler';
+import { Id3Metadata } from './id3';
+import { buildVorbisComment } from './flac';
+
+// Ogg/Opus via the browser's WebCodecs Opus encoder, muxed into Ogg pages here.
+
+// Opus granule positions always count 48 kHz samples
+const OPUS_GRANULE_RATE = 48000;
+// libopus encoder lookahead at 48 kHz, used when the encoder doesn't report it
+const DEFAULT_PRE_SKIP = 312;
+// Frames handed to the encoder per AudioData (1 s at 48 kHz)
+const INPUT_BLOCK = 48000;
+// Silence appended so the encoder's lookahead doesn't swallow the last
+// samples; the final granule position trims it off again
+const END_PADDING = 960;
+// Flush a page once it holds this much packet data
+const PAGE_TARGET_BYTES = 4096;
+
+let crcTable: Uint32Array | null = null;
+
+// Ogg CRC-32: polynomial 0x04C11DB7, no reflection, zero initial value
+const oggCrc = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let crc = i << 24;
+      for (let j = 0; j < 8; j++) {
+        crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+      }
+      crcTable[i] = crc >>> 0;
+    }
+  }
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+
+const buildPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array => {
+  // Lacing: each packet is split into 255-byte segments ending with a shorter one
+  const lacing: number[] = [];
+  packets.forEach(packet => {
+    for (let remaining = packet.length; ; remaining -= 255) {
+      lacing.push(Math.min(255, remaining));
+      if (remaining < 255) break;
+    }
+  });
+
+  const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[4] = 0; // version
+  page[5] = headerType;
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const buildOpusHead = (channels: number, preSkip: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mono/stereo channel mapping
+  return head;
+};
+
+const buildOpusTags = (tags?: Id3Metadata): Uint8Array => {
+  const comment = buildVorbisComment(tags ?? {}, 'Gemini Vox');
+  const packet = new Uint8Array(8 + comment.length);
+  packet.set(new TextEncoder().encode('OpusTags'));
+  packet.set(comment, 8);
+  return packet;
+};
+
+// An OpusHead in the decoder description carries the encoder's real pre-skip
+const readPreSkip = (description?: AllowSharedBufferSource): number => {
+  if (!description) return DEFAULT_PRE_SKIP;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return DEFAULT_PRE_SKIP;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+interface OpusPacket {
+  data: Uint8Array;
+  // Duration in 48 kHz samples
+  samples: number;
+}
+
+/**
+ * Wraps Opus packets in Ogg pages: OpusHead, OpusTags, then audio pages whose
+ * granule positions count decoded samples from 0, pre-skip included (RFC 7845).
+ * The final granule, pre-skip plus the real length, trims the encoder's
+ * padding so decoders stop at the real end.
+ */
+const muxOggOpus = (packets: OpusPacket[], totalSamples: number, channels: number, preSkip: number, inputSampleRate: number, tags?: Id3Metadata): Uint8Array[] => {
+  const serial = Math.floor(Math.random() * 0xffffffff);
+  const pages: Uint8Array[] = [
+    buildPage([buildOpusHead(channels, preSkip, inputSampleRate)], 0, serial, 0, HEADER_TYPE_BOS),
+    buildPage([buildOpusTags(tags)], 0, serial, 1, 0),
+  ];
+
+  const endGranule = preSkip + totalSamples;
+  let granule = 0;
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  packets.forEach((packet, i) => {
+    pending.push(packet.data);
+    pendingBytes += packet.data.length;
+    granule += packet.samples;
+    const isLast = i === packets.length - 1;
+    const segments = pending.reduce((sum, p) => sum + Math.floor(p.length / 255) + 1, 0);
+    if (isLast || pendingBytes >= PAGE_TARGET_BYTES || segments > 200) {
+      const pageGranule = isLast ? endGranule : Math.min(granule, endGranule);
+      pages.push(buildPage(pending, pageGranule, serial, pages.length, isLast ? HEADER_TYPE_EOS : 0));
+      pending = [];
+      pendingBytes = 0;
+    }
+  });
+  return pages;
+};
+
+export interface OpusEncodeOptions {
+  // kbps
+  bitrate?: number;
+  // 1 or 2; stereo input is interleaved
+  channels?: number;
+  // Rate of the source audio, recorded in the header for information only
+  inputSampleRate?: number;
+  tags?: Id3Metadata;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Encodes mono or interleaved stereo float samples at 48 kHz into an Ogg/Opus file. Needs WebCodecs
+ * audio encoding (Chromium browsers, Firefox 130+, Safari 26+).
+ */
+export const encodeOggOpus = async (
+  samples: Float32Array,
+  { bitrate = 64, channels = 1, inputSampleRate = OPUS_GRANULE_RATE, tags, onProgress, signal }: OpusEncodeOptions = {}
+): Promise<Blob> => {
+  if (typeof AudioEncoder === 'undefined') {
+    throw new Error("Opus export isn't supported in this browser (needs WebCodecs).");
+  }
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: OPUS_GRANULE_RATE,
+    numberOfChannels: channels,
+    bitrate: bitrate * 1000,
+  };
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    throw new Error("This browser can't encode Opus audio.");
+  }
+  if (signal?.aborted) throw abortError();
+
+  const frames = Math.floor(samples.length / channels);
+  const packets: OpusPacket[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let encodeError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_GRANULE_RATE) / 1e6) });
+      if (metadata?.decoderConfig) preSkip = readPreSkip(metadata.decoderConfig.description);
+    },
+    error: (e) => { encodeError = e; },
+  });
+
+  try {
+    encoder.configure(config);
+    const padded = new Float32Array((frames + END_PADDING) * channels);
+    padded.set(samples.subarray(0, frames * channels));
+    const paddedFrames = frames + END_PADDING;
+    for (let start = 0; start < paddedFrames; start += INPUT_BLOCK) {
+      if (signal?.aborted) throw abortError();
+      const blockFrames = Math.min(INPUT_BLOCK, paddedFrames - start);
+      // f32-planar wants each channel's samples back to back
+      const block = new Float32Array(blockFrames * channels);
+      for (let ch = 0; ch < channels; ch++) {
+        for (let i = 0; i < blockFrames; i++) {
+          block[ch * blockFrames + i] = padded[(start + i) * channels + ch];
+        }
+      }
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_GRANULE_RATE,
+        numberOfFrames: blockFrames,
+        numberOfChannels: channels,
+        timestamp: Math.round((start / OPUS_GRANULE_RATE) * 1e6),
+        data: block,
+      });
+      encoder.encode(data);
+      data.close();
+      onProgress?.(((start + blockFrames) / paddedFrames) * 0.9);
+      // Let the encoder drain so memory stays bounded on long clips
+      if (encoder.encodeQueueSize > 4) await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (encodeError) throw encodeError;
+  if (signal?.aborted) throw abortError();
+
+  const pages = muxOggOpus(packets, frames, channels, preSkip, inputSampleRate, tags);
+  onProgress?.(1);
+
+  return new Blob(pages, { type: 'audio/ogg; codecs=opus' });
+};
@@ -0,0 +1,147 @@
+import { TimedSegment } from '../types';
+import { splitSentences } from './text';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface CueOptions {
+  // Longest text shown at once, counted in visible characters
+  maxCharsPerCue: number;
+  // Longest line before wrapping, counted in visible characters
+  lineLength: number;
+}
+
+const graphemeSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null;
+
+/**
+ * Splits text into user-perceived characters. Devanagari, Tamil, Telugu etc.
+ * combine consonants, vowel signs and viramas into one cluster that must never
+ * be broken across lines or counted as several characters.
+ */
+const toGraphemes = (text: string): string[] => {
+  if (graphemeSegmenter) {
+    return Array.from(graphemeSegmenter.segment(text), s => s.segment);
+  }
+  // Fallback: attach combining marks (vowel signs, viramas, nuktas) to the preceding character
+  return text.match(/\P{M}\p{M}*|\p{M}+/gu) || [];
+};
+
+export const visibleLength = (text: string): number => toGraphemes(text).length;
+
+/**
+ * Breaks a word longer than `max` at grapheme boundaries.
+ */
+const splitLongWord = (word: string, max: number): string[] => {
+  const graphemes = toGraphemes(word);
+  const pieces: string[] = [];
+  for (let i = 0; i < graphemes.length; i += max) {
+    pieces.push(graphemes.slice(i, i + max).join(''));
+  }
+  return pieces;
+};
+
+/**
+ * Greedily packs words into pieces of at most `max` visible characters.
+ */
+const packWords = (text: string, max: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (const part of visibleLength(word) > max ? splitLongWord(word, max) : [word]) {
+      if (current && visibleLength(current) + 1 + visibleLength(part) > max) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = current ? `${current} ${part}` : part;
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Wraps cue text into lines. Two-line cues are balanced so the lines have
+ * similar lengths instead of one long line and a dangling word.
+ */
+export const wrapCueText = (text: string, lineLength: number): string[] => {
+  const lines = packWords(text, lineLength);
+  if (lines.length !== 2) return lines;
+
+  const words = text.split(/\s+/).filter(Boolean);
+  let best = lines;
+  let bestWidth = Math.max(...lines.map(visibleLength));
+  for (let i = 1; i < words.length; i++) {
+    const candidate = [words.slice(0, i).join(' '), words.slice(i).join(' ')];
+    const width = Math.max(...candidate.map(visibleLength));
+    if (width <= lineLength && width < bestWidth) {
+      best = candidate;
+      bestWidth = width;
+    }
+  }
+  return best;
+};
+
+/**
+ * Spreads a stretch of audio across the sentences of its text, in proportion
+ * to each sentence's visible length. Used when only a whole chunk's duration is known.
+ */
+export const estimateSentenceTimings = (text: string, start: number, duration: number): TimedSegment[] => {
+  const sentences = splitSentences(text.replace(/\s+/g, ' '));
+  const weights = sentences.map(s => Math.max(1, visibleLength(s.replace(/\s+/g, ''))));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  let offset = start;
+  return sentences.map((sentence, i) => {
+    const length = (duration * weights[i]) / total;
+    const segment = { text: sentence, start: offset, end: offset + length };
+    offset += length;
+    return segment;
+  });
+};
+
+/**
+ * Turns timed sentences into subtitle cues, splitting sentences that are
+ * too long for one cue and dividing their time by text length.
+ */
+export const buildCues = (segments: TimedSegment[], options: CueOptions): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  for (const segment of segments) {
+    const pieces = packWords(segment.text, Math.max(options.maxCharsPerCue, options.lineLength));
+    const total = pieces.reduce((sum, p) => sum + visibleLength(p), 0) || 1;
+    let offset = segment.start;
+    for (const piece of pieces) {
+      const length = ((segment.end - segment.start) * visibleLength(piece)) / total;
+      cues.push({ start: offset, end: offset + length, lines: wrapCueText(piece, options.lineLength) });
+      offset += length;
+    }
+  }
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const formatSrt = (cues: SubtitleCue[]): string => {
+  return cues.map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`
+  ).join('\n');
+};
+
+export const formatVtt = (cues: SubtitleCue[]): string => {
+  const body = cues.map(cue =>
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.join('\n')}\n`
+  ).join('\n');
+  return `WEBVTT\n\n${body}`;
+};
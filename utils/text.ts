@@ -0,0 +1,143 @@
+import { DeliveryStyle } from '../types';
+import { TTS_CHUNK_CHAR_LIMIT, STYLE_INSTRUCTION_MAX_LENGTH, SPEAKING_RATES, EMOTIONS, VOCAL_INTENSITIES } from '../constants';
+
+// A sentence runs to terminal punctuation (Latin . ! ? or Indic । ॥, plus any
+// closing quotes or brackets) followed by whitespace and then something other
+// than a lowercase letter, or to the end. So "3.14" and "e.g. this" stay whole.
+const SENTENCE_PATTERN = /\S[\s\S]*?(?:[.!?।॥]+["'”’)\]]*(?=\s+[^\s\p{Ll}]|\s*$)|$)\s*/gu;
+
+/**
+ * Sentences exactly as they appear in the text, each with the whitespace
+ * that follows it, so joining them gives back the original.
+ */
+const sentenceSlices = (paragraph: string): string[] => paragraph.match(SENTENCE_PATTERN) || [];
+
+/**
+ * Splits a paragraph into sentences, keeping the terminating punctuation.
+ * Recognises Latin (. ! ?) and Indic (। ॥) sentence terminators.
+ */
+export const splitSentences = (paragraph: string): string[] => {
+  return sentenceSlices(paragraph).map(s => s.trim()).filter(Boolean);
+};
+
+/**
+ * Breaks a single sentence that is longer than maxChars at word boundaries,
+ * falling back to a hard cut for unbroken runs of characters. Pieces keep
+ * their original spacing, so joining them gives back the sentence.
+ */
+const splitOversized = (sentence: string, maxChars: number): string[] => {
+  if (sentence.trimEnd().length <= maxChars) return [sentence];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of sentence.match(/\S+\s*/g) || []) {
+    const bare = word.trimEnd();
+    if (bare.length > maxChars) {
+      if (current) pieces.push(current);
+      current = '';
+      for (let i = 0; i < bare.length; i += maxChars) {
+        pieces.push(bare.slice(i, i + maxChars));
+      }
+      pieces[pieces.length - 1] += word.slice(bare.length);
+      continue;
+    }
+    if (current && (current + bare).length > maxChars) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current += word;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Splits long text into chunks suitable for a single TTS request.
+ * Prefers paragraph boundaries, then sentence boundaries, then words. Text
+ * within a paragraph is kept as written; only the cuts are trimmed.
+ */
+export const splitTextIntoChunks = (text: string, maxChars: number = TTS_CHUNK_CHAR_LIMIT): string[] => {
+  if (maxChars <= 0) throw new Error("There's no room left for text in the request; shorten the style instruction.");
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+  for (const paragraph of paragraphs) {
+    // Keep whole paragraphs together when they fit
+    if (current && current.length + 2 + paragraph.length <= maxChars) {
+      current += `\n\n${paragraph}`;
+      continue;
+    }
+    flush();
+    if (paragraph.length <= maxChars) {
+      current = paragraph;
+      continue;
+    }
+
+    for (const sentence of sentenceSlices(paragraph)) {
+      for (const piece of splitOversized(sentence, maxChars)) {
+        if (current && (current + piece).trimEnd().length > maxChars) flush();
+        current += piece;
+      }
+    }
+  }
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Formats a byte count as a short human-readable string (e.g. "12.4 MB").
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * Turns a delivery style into a natural-language prefix that steers the TTS model,
+ * e.g. "Say the following slowly and deliberately, in a cheerful, upbeat tone:\n".
+ * Returns an empty string for the default style.
+ */
+export const buildStyleDirective = (style?: DeliveryStyle): string => {
+  if (!style) return '';
+  const phrases = [
+    SPEAKING_RATES.find(o => o.id === style.rate)?.directive,
+    EMOTIONS.find(o => o.id === style.emotion)?.directive,
+    VOCAL_INTENSITIES.find(o => o.id === style.intensity)?.directive,
+  ].filter(Boolean);
+  const instruction = style.instruction.trim().slice(0, STYLE_INSTRUCTION_MAX_LENGTH);
+
+  if (phrases.length === 0 && !instruction) return '';
+
+  let directive = 'Say the following';
+  if (phrases.length > 0) directive += ` ${phrases.join(', ')}`;
+  if (instruction) directive += ` (${instruction})`;
+  return `${directive}:\n`;
+};
+
+/**
+ * Short labels describing the non-default parts of a delivery style, for display.
+ */
+export const describeDeliveryStyle = (style?: DeliveryStyle): string[] => {
+  if (!style) return [];
+  const labels: string[] = [];
+  if (style.rate !== 'normal') labels.push(SPEAKING_RATES.find(o => o.id === style.rate)?.label || style.rate);
+  if (style.emotion !== 'neutral') labels.push(EMOTIONS.find(o => o.id === style.emotion)?.label || style.emotion);
+  if (style.intensity !== 'normal') labels.push(VOCAL_INTENSITIES.find(o => o.id === style.intensity)?.label || style.intensity);
+  return labels;
+};
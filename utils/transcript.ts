@@ -0,0 +1,242 @@
+import { Transcript, TranscriptSegment, TranscriptFormat, TimedSegment } from '../types';
+import { buildCues, formatSrt, formatVtt, CueOptions } from './subtitles';
+
+/**
+ * Reads a time the model gave as seconds, or as "[hh:]mm:ss[.fff]".
+ */
+const parseTime = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const parts = value.trim().replace(',', '.').split(':');
+  if (parts.length > 3 || parts.some(p => p === '' || isNaN(Number(p)))) return null;
+  const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds >= 0 ? seconds : null;
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+/**
+ * Validates the model's JSON transcript. Segments without text or a usable
+ * start time are dropped; the rest are put in time order, and a missing or
+ * backwards `end` is estimated. Throws when the response isn't a transcript
+ * at all.
+ */
+export const parseTranscript = (raw: string): Transcript => {
+  let data: any;
+  try {
+    // Tolerate a markdown code fence around the JSON
+    data = JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error("The transcription wasn't valid JSON.");
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.segments)) {
+    throw new Error("The transcription didn't include any segments.");
+  }
+
+  const segments: TranscriptSegment[] = [];
+  for (const item of data.segments) {
+    if (!item || typeof item !== 'object') continue;
+    const text = optionalString(item.text);
+    const start = parseTime(item.start);
+    if (!text || start === null) continue;
+    const end = parseTime(item.end);
+    const speaker = optionalString(item.speaker);
+    // A missing or backwards end is filled in below
+    segments.push({ text, start, end: end !== null && end > start ? end : NaN, ...(speaker ? { speaker } : {}) });
+  }
+  segments.sort((a, b) => a.start - b.start);
+  segments.forEach((segment, i) => {
+    if (!isNaN(segment.end)) return;
+    const next = segments[i + 1];
+    // Run up to the next line, or allow roughly 150 words per minute
+    segment.end = next && next.start > segment.start
+      ? next.start
+      : segment.start + Math.max(1, segment.text.split(/\s+/).length * 0.4);
+  });
+
+  return { language: optionalString(data.language), segments };
+};
+
+/**
+ * The spoken words only, e.g. for use as a prompt.
+ */
+export const transcriptText = (transcript: Transcript): string => {
+  return transcript.segments.map(s => s.text).join(' ');
+};
+
+const distinctSpeakers = (transcript: Transcript): number => {
+  return new Set(transcript.segments.map(s => s.speaker).filter(Boolean)).size;
+};
+
+/**
+ * Groups consecutive segments by the same speaker into paragraphs, each
+ * labelled with the speaker when more than one was heard.
+ */
+const formatText = (transcript: Transcript): string => {
+  const labelled = distinctSpeakers(transcript) > 1;
+  const paragraphs: { speaker?: string, texts: string[] }[] = [];
+  for (const segment of transcript.segments) {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.texts.push(segment.text);
+    } else {
+      paragraphs.push({ speaker: segment.speaker, texts: [segment.text] });
+    }
+  }
+  return paragraphs
+    .map(p => `${labelled && p.speaker ? `${p.speaker}: ` : ''}${p.texts.join(' ')}`)
+    .join('\n\n') + '\n';
+};
+
+/**
+ * Caption text for each segment, prefixed with the speaker whenever it changes.
+ */
+const toCaptionSegments = (transcript: Transcript): TimedSegment[] => {
+  const labelled = distinctSpeakers(transcript) > 1;
+  return transcript.segments.map((segment, i) => {
+    const changed = segment.speaker && segment.speaker !== transcript.segments[i - 1]?.speaker;
+    return {
+      text: labelled && changed ? `${segment.speaker}: ${segment.text}` : segment.text,
+      start: segment.start,
+      end: segment.end,
+    };
+  });
+};
+
+export interface TranscriptionChunk {
+  // Seconds into the source audio
+  start: number;
+  end: number;
+}
+
+/**
+ * Divides `duration` seconds into chunks of at most `chunkSeconds`, each
+ * overlapping the previous one by `overlapSeconds` so no word is lost at a cut.
+ */
+export const planTranscriptionChunks = (duration: number, chunkSeconds: number, overlapSeconds: number): TranscriptionChunk[] => {
+  const chunks: TranscriptionChunk[] = [];
+  const step = Math.max(1, chunkSeconds - overlapSeconds);
+  for (let start = 0; ; start += step) {
+    const end = Math.min(duration, start + chunkSeconds);
+    chunks.push({ start, end });
+    if (end >= duration) return chunks;
+  }
+};
+
+// How close to a chunk's end a line has to finish to count as cut off
+const CUT_OFF_SECONDS = 0.5;
+
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Removes the words at the start of `next` that repeat the end of `previous`,
+ * which happens when both chunks heard the line spanning the cut. Only runs
+ * of two or more words count, unless the whole of `next` is repeated.
+ * Returns false when nothing of `next` is left.
+ */
+const trimRepeatedWords = (previous: TranscriptSegment, next: TranscriptSegment): boolean => {
+  const before = previous.text.split(/\s+/).map(normalizeWord);
+  const words = next.text.split(/\s+/);
+  const after = words.map(normalizeWord);
+  for (let k = Math.min(before.length, after.length); k >= 1; k--) {
+    if (k < 2 && k < after.length) break;
+    if (after.slice(0, k).every((word, i) => word === before[before.length - k + i])) {
+      next.text = words.slice(k).join(' ');
+      if (!next.text) previous.end = Math.max(previous.end, next.end);
+      return next.text.length > 0;
+    }
+  }
+  return true;
+};
+
+/**
+ * Maps the speaker labels of one chunk onto those of the previous chunk, by
+ * which lines the two heard at the same time in their overlap. Each chunk is
+ * transcribed on its own, so "Speaker 1" in one needn't be "Speaker 1" in the next.
+ */
+const matchSpeakers = (previous: TranscriptSegment[], next: TranscriptSegment[], overlapStart: number, overlapEnd: number): Map<string, string> => {
+  const votes = new Map<string, Map<string, number>>();
+  for (const segment of next) {
+    if (!segment.speaker || segment.end <= overlapStart || segment.start >= overlapEnd) continue;
+    for (const other of previous) {
+      const shared = Math.min(segment.end, other.end, overlapEnd) - Math.max(segment.start, other.start, overlapStart);
+      if (!other.speaker || shared <= 0) continue;
+      const tally = votes.get(segment.speaker) ?? new Map<string, number>();
+      tally.set(other.speaker, (tally.get(other.speaker) ?? 0) + shared);
+      votes.set(segment.speaker, tally);
+    }
+  }
+  const mapping = new Map<string, string>();
+  votes.forEach((tally, speaker) => {
+    mapping.set(speaker, Array.from(tally.entries()).sort((a, b) => b[1] - a[1])[0][0]);
+  });
+  return mapping;
+};
+
+/**
+ * Joins per-chunk transcripts (timed from each chunk's own start) into one.
+ * Where two chunks overlap, the earlier one keeps the lines starting before
+ * the middle of the overlap and the later one the rest; a line the earlier
+ * chunk cut off is left to the later chunk, and words both chunks heard are
+ * only kept once. The language is whichever most chunks detected.
+ */
+export const mergeChunkTranscripts = (parts: { chunk: TranscriptionChunk, transcript: Transcript }[]): Transcript => {
+  const shifted = parts.map(({ chunk, transcript }) =>
+    transcript.segments.map(s => ({ ...s, start: s.start + chunk.start, end: Math.min(s.end + chunk.start, chunk.end) }))
+  );
+
+  const segments: TranscriptSegment[] = [];
+  let from = -Infinity;
+  shifted.forEach((chunkSegments, i) => {
+    const chunk = parts[i].chunk;
+    const next = parts[i + 1]?.chunk;
+    if (i > 0) {
+      const mapping = matchSpeakers(shifted[i - 1], chunkSegments, chunk.start, parts[i - 1].chunk.end);
+      chunkSegments.forEach(s => { if (s.speaker && mapping.has(s.speaker)) s.speaker = mapping.get(s.speaker); });
+    }
+
+    let to = Infinity;
+    if (next) {
+      to = (next.start + chunk.end) / 2;
+      const last = chunkSegments.filter(s => s.start < to).pop();
+      if (last && last.end >= chunk.end - CUT_OFF_SECONDS) to = last.start;
+    }
+    for (const segment of chunkSegments.filter(s => s.start >= from && s.start < to)) {
+      const previous = segments[segments.length - 1];
+      if (previous && segment.start < previous.end + CUT_OFF_SECONDS && !trimRepeatedWords(previous, segment)) continue;
+      segments.push(segment);
+    }
+    // Allow for the later chunk timing the same line slightly earlier
+    from = to - CUT_OFF_SECONDS;
+  });
+
+  const languages = new Map<string, number>();
+  parts.forEach(({ transcript }) => {
+    if (transcript.language) languages.set(transcript.language, (languages.get(transcript.language) ?? 0) + 1);
+  });
+  const language = Array.from(languages.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return { language, segments };
+};
+
+export const TRANSCRIPT_MIME_TYPES: Record<TranscriptFormat, string> = {
+  txt: 'text/plain',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json',
+};
+
+export const formatTranscript = (transcript: Transcript, format: TranscriptFormat, cueOptions: CueOptions): string => {
+  switch (format) {
+    case 'txt':
+      return formatText(transcript);
+    case 'srt':
+      return formatSrt(buildCues(toCaptionSegments(transcript), cueOptions));
+    case 'vtt':
+      return formatVtt(buildCues(toCaptionSegments(transcript), cueOptions));
+    case 'json':
+      return JSON.stringify(transcript, null, 2);
+  }
+};